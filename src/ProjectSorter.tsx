@@ -10,7 +10,7 @@
  */
 
 import React, { useState, useRef, useEffect, useCallback, useLayoutEffect, useMemo } from 'react';
-import type { FC, CSSProperties, RefObject } from 'react';
+import type { FC, CSSProperties, RefObject, ReactNode } from 'react';
 import { createPortal } from 'react-dom';
 import { 
   ChevronRight, 
@@ -20,18 +20,193 @@ import {
   Eye,
   EyeOff,
   Circle,
-  Check
+  Check,
+  Archive,
+  RotateCcw,
+  Undo2,
+  X,
+  Ellipsis,
+  Download,
+  Upload,
+  ChevronsUpDown,
+  Pencil,
+  CornerDownRight,
+  Keyboard,
+  CalendarClock,
+  Repeat,
+  Moon,
+  SlidersHorizontal,
+  Crosshair,
+  SkipForward,
+  Search,
+  Tag,
+  StickyNote,
+  Globe,
+  ExternalLink,
+  ListTree,
+  Ban,
+  Minus,
+  ChevronsUp,
+  FoldVertical,
+  FolderInput,
+  LayoutTemplate,
+  BookmarkPlus,
+  ChartColumn
 } from 'lucide-react';
+import { storage } from './storage';
+import {
+  MAX_TITLE_LENGTH,
+  MAX_NOTE_LENGTH,
+  PLACEHOLDER_TITLE,
+  DEFAULT_TREE_LIMITS,
+  DEPTH_LIMIT_RANGE,
+  TITLE_LENGTH_RANGE,
+  collectIds,
+  generateId,
+  generateUniqueId,
+  normalizeTreeIds,
+  getNodeMaxDepth,
+  findContextByIdWithDepth,
+  findContextById,
+  ensureNodeOpenById,
+  setAllNodesOpen,
+  isSameTreeIgnoringOpen,
+  containsId,
+  findNodeById,
+  collectSubtreeIds,
+  removeNodesByIds,
+  completeNodeInTree,
+  restoreCompletedEntry,
+  getTreeOpenState,
+  canPlaceNodes,
+  moveNodesInTree,
+  moveNodesToRoot,
+  collapseNodesInTree,
+  getSelectionRoots,
+  insertNodeAt,
+  insertNodesAt,
+  getVisibleIds,
+  indentNodeInTree,
+  outdentNodeInTree,
+  updateNodeById,
+  getLeafPaths,
+  moveNodeToSiblingEnd
+} from './tree';
+import type { TreeItem, CompletedEntry, InsertPosition, TreeOpenState, LeafPath, TreeLimits } from './tree';
+import {
+  LISTS_SCHEMA,
+  ARCHIVE_SCHEMA,
+  SETTINGS_SCHEMA,
+  TEMPLATES_SCHEMA,
+  REPEATS_SCHEMA,
+  ACTIVITY_SCHEMA,
+  DEFAULT_SETTINGS,
+  MAX_LIST_NAME_LENGTH,
+  listTreeSchema,
+  listIdFromTreeKey,
+  createDefaultListsIndex,
+  loadDocument,
+  decodeDocument,
+  saveDocument,
+  loadQuarantine
+} from './schema';
+import type { AppSettings, DocumentSchema, ListViewSettings, ListsIndex, LoadedDocument, TaskList } from './schema';
+import {
+  BUILTIN_FOCUS_PROFILES,
+  DEFAULT_FOCUS_PROFILE_ID,
+  FOCUS_EFFECT_LABELS,
+  FOCUS_ORDER_LABELS,
+  MAX_CURVE_LENGTH,
+  MAX_PROFILE_NAME_LENGTH,
+  MIN_FOCUS_STRENGTH,
+  clampStrength,
+  computeLeafRanks,
+  getFocusStyle,
+  getRankStrength,
+  resolveFocusProfile
+} from './focus';
+import type { FocusEffect, FocusOrder, FocusProfile, FocusRender } from './focus';
+import {
+  DAY_MS,
+  startOfDay,
+  addDays,
+  nextMonday,
+  getDueStatus,
+  getOverdueDays,
+  isSnoozed,
+  formatShortDate,
+  toDateInputValue,
+  fromDateInputValue,
+  snoozeNodeInTree,
+  unsnoozeNodeInTree,
+  wakeSnoozedNodes
+} from './schedule';
+import {
+  appendCapturedPage,
+  canCaptureTabs,
+  consumeQuickAddRequest,
+  formatUrlHost,
+  getActiveTabPage,
+  onQuickAddRequest,
+  openUrl
+} from './capture';
+import type { CapturedPage } from './capture';
+import { MarkdownNote } from './markdown';
+import { readClipboard, writeClipboard } from './clipboard';
+import {
+  BUILTIN_TEMPLATES,
+  MAX_TEMPLATE_NAME_LENGTH,
+  TEMPLATE_PLACEHOLDERS,
+  countTemplateItems,
+  createTemplate,
+  expandPlaceholders,
+  instantiateTemplate,
+  isBuiltinTemplate
+} from './templates';
+import type { TaskTemplate } from './templates';
+import {
+  REPEAT_INTERVAL_RANGE,
+  WEEKDAY_ORDER,
+  addPendingRepeats,
+  createPendingRepeats,
+  formatRepeatRule,
+  getWeekdayName,
+  hasDueRepeats,
+  isSameRepeatRule,
+  materializeRepeats,
+  setNodeRepeat
+} from './recurrence';
+import type { PendingRepeat, RepeatRule } from './recurrence';
+import {
+  appendActivity,
+  describeActivity,
+  diffActivity,
+  getAverageDepth,
+  getFirstActivityAt,
+  getLongestLivedTasks,
+  getStreaks,
+  recordCreated,
+  tallyClearedByDay
+} from './activity';
+import type { ActivityEntry, ActivityHint, ActivityKind } from './activity';
+import { searchTree } from './search';
+import { MAX_TAGS_PER_NODE, MAX_TAG_LENGTH, collectTags, filterTreeByTags, getTagColor, mergeTags, normalizeTag, parseTitleTags, setNodeTags } from './tags';
+import type { MatchRange } from './search';
+import { importTree, mergeImported, downloadTree, downloadTextFile, fitTreeToLimits, ImportError } from './transfer';
+import type { ImportResult } from './transfer';
 
-const DATA_STORAGE_KEY = 'project-sort-data-v37';
-const SETTINGS_STORAGE_KEY = 'project-sort-settings-v2';
 const MIN_NODE_WIDTH = 180;
 
 type MoveDirection = 'up' | 'down' | 'left' | 'right';
-type OpacityMode = 1 | 2 | 3;
-type InsertPosition = 'before' | 'after' | 'inside';
+const formatDepthLimitMessage = (maxDepth: number) => `最多 ${maxDepth} 层，无法移到这里`;
+const FILTERED_MOVE_MESSAGE = '筛选或搜索时不能用键盘移动，先清除筛选';
+const ARROW_DIRECTIONS: Record<string, MoveDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right'
+};
 type ScrollDirection = -1 | 0 | 1;
-type TreeOpenState = 'all-open' | 'all-closed' | 'mixed';
 const SNAP_PREP_MS = 160;
 const SNAP_ANIMATION_MS = 450;
 interface SnapOverlayEntry {
@@ -46,55 +221,98 @@ interface SnapPlaceholder {
   height: number;
 }
 
-const TRANSPARENT_DRAG_IMAGE = (() => {
-  if (typeof Image === 'undefined') return null;
-  const img = new Image();
-  img.src = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR4nGNgYAAAAAMAASsJTYQAAAAASUVORK5CYII=';
-  return img;
-})();
+interface DropTarget {
+  id: string;
+  position: InsertPosition;
+  /** 放下后会超出层级上限 */
+  rejected: boolean;
+}
+
+interface DragPoint {
+  x: number;
+  y: number;
+}
 
-interface TreeItem {
+interface PointerPress {
   id: string;
-  title: string;
-  isOpen?: boolean;
-  children: TreeItem[];
+  pointerId: number;
+  pointerType: string;
+  startX: number;
+  startY: number;
+  /** 触屏长按计时，拿起或放弃后清空 */
+  timer: ReturnType<typeof setTimeout> | null;
+  dragging: boolean;
 }
 
-interface TreeContext {
-  list: TreeItem[];
-  index: number;
-  node: TreeItem;
-  parent: TreeItem | null;
+const LONG_PRESS_MS = 400;
+const PRESS_MOVE_TOLERANCE = 6;
+// 在节点正中停留这么久才算「放入」，之前按上下半区插到前后
+const NEST_HOVER_MS = 500;
+
+/** 节点这一行的上 20% 插到前面、下 20% 插到后面，中间 60% 是可以放入的区域。 */
+const getDropZone = (rect: DOMRect, y: number): 'before' | 'after' | 'center' => {
+  const { top, height } = rect;
+  if (y < top + height * 0.2) return 'before';
+  if (y > top + height * 0.8) return 'after';
+  return 'center';
+};
+
+// 拖拽影子在指针右下方一点，不挡住插入线
+const getGhostTransform = ({ x, y }: DragPoint) => `translate(${x + 12}px, ${y + 8}px)`;
+
+interface HistorySnapshot {
+  data: TreeItem[];
+  archive: CompletedEntry[];
 }
 
 interface TreeNodeProps {
   item: TreeItem;
   index: number;
   level: number;
-  parentOpacity: number;
-  enableOpacity: boolean;
-  opacityMode: OpacityMode;
+  /** sibling 顺序下祖先累积的专注强度 */
+  parentStrength: number;
+  focus: FocusRender | null;
   deleteConfirmId: string | null;
   deletingAncestor: boolean;
   selectedId: string | null;
-  draggingId: string | null;
+  /** 多选中的节点，单选时为空 */
+  selectionIds: Set<string>;
+  /** 正在拖动的节点（整组拖动时为整组） */
+  draggedIds: Set<string>;
   snappingIds: Set<string>;
   lengthWarningId: string | null;
   lengthWarningExcess: number | null;
   pendingEditId: string | null;
+  /** 搜索中各节点标题的命中区间 */
+  searchMatches: Map<string, MatchRange> | null;
+  /** roving tabindex：整棵树只有这一项可以 Tab 进入 */
+  focusableId: string | null;
+  now: number;
+  scheduleOpenId: string | null;
+  tagOpenId: string | null;
+  noteEditId: string | null;
   registerHeaderRef: (id: string, el: HTMLDivElement | null) => void;
   registerLiRef: (id: string, el: HTMLLIElement | null) => void;
   snapPlaceholders: SnapPlaceholder[];
+  maxDepth: number;
+  /** 拖拽中插入线所在的节点与位置 */
+  dropTarget: DropTarget | null;
   onToggle: (id: string) => void;
   onAdd: (parentId: string | null, level: number) => void;
   onDeleteRequest: (id: string) => void;
   onConfirmDelete: (id: string) => void;
+  onComplete: (id: string) => void;
   onRename: (id: string, newTitle: string) => void;
-  onSelect: (id: string) => void;
-  onDragStart: (id: string) => void;
-  onDrop: (id: string, position: InsertPosition) => void;
-  onPreviewMove: (id: string, position: InsertPosition) => void;
-  onDragEnd: () => void;
+  onSelect: (id: string, e: React.MouseEvent) => void;
+  onFocusItem: (id: string) => void;
+  onScheduleRequest: (id: string, anchor: HTMLElement) => void;
+  onTagRequest: (id: string, anchor: HTMLElement) => void;
+  onTagClick: (tag: string) => void;
+  onNoteRequest: (id: string) => void;
+  onSaveNote: (id: string, note: string) => void;
+  onCancelNote: () => void;
+  /** 按下节点这一行，长按或拖动后由 ProjectSorter 接管 */
+  onDragPointerDown: (id: string, e: React.PointerEvent<HTMLElement>) => void;
   onResolvePendingEdit: (id: string) => void;
 }
 
@@ -146,13 +364,12 @@ const FALLBACK_DATA: TreeItem[] = [
   }
 ];
 
-const DEFAULT_SETTINGS: { enableOpacity: boolean; opacityMode: OpacityMode } = {
-  enableOpacity: true,
-  opacityMode: 2
-};
-const MAX_TITLE_LENGTH = 36;
-const PLACEHOLDER_TITLE = '新项目';
-const MAX_DEPTH = 5;
+// 推迟到期的检查间隔；弹窗跨过零点时也会刷新逾期标记
+const SCHEDULE_TICK_MS = 60 * 1000;
+// 节点上最多直接显示的标签数，其余折叠成 +N
+const MAX_VISIBLE_TAGS = 2;
+const HISTORY_LIMIT = 100;
+const UNDO_TOAST_MS = 5000;
 const TREE_STATE_ICON_PATHS: Record<TreeOpenState, string> = {
   'all-open': '/icons/Expand.svg',
   'all-closed': '/icons/Collapse.svg',
@@ -164,61 +381,6 @@ const TREE_STATE_ICON_HOVER_PATHS: Record<TreeOpenState, string> = {
   mixed: '/icons/Random_hover.svg'
 };
 
-// --- ID 工具集 ---
-const generateId = (): string => Math.random().toString(36).slice(2, 11);
-const generateUniqueId = (used: Set<string>): string => {
-  let next = generateId();
-  while (used.has(next)) next = generateId();
-  used.add(next);
-  return next;
-};
-const collectIds = (nodes: TreeItem[], used = new Set<string>()): Set<string> => {
-  for (const node of nodes) {
-    if (node.id) used.add(node.id);
-    if (node.children) collectIds(node.children, used);
-  }
-  return used;
-};
-const normalizeTreeIds = (nodes: TreeItem[]): { tree: TreeItem[]; usedIds: Set<string>; changed: boolean } => {
-  const usedIds = new Set<string>();
-  let changed = false;
-  const walk = (list: TreeItem[]): TreeItem[] =>
-    list.map(node => {
-      let nextId = node.id;
-      if (!nextId || usedIds.has(nextId)) {
-        nextId = generateUniqueId(usedIds);
-        changed = true;
-      } else {
-        usedIds.add(nextId);
-      }
-      return { ...node, id: nextId, children: node.children ? walk(node.children) : [] };
-    });
-  return { tree: walk(nodes), usedIds, changed };
-};
-
-const getNodeMaxDepth = (node: TreeItem): number =>
-  1 + (node.children.length ? Math.max(...node.children.map(getNodeMaxDepth)) : 0);
-
-interface TreeContextWithDepth extends TreeContext {
-  depth: number;
-}
-
-const findContextByIdWithDepth = (
-  nodes: TreeItem[],
-  targetId: string,
-  depth = 0,
-  parent: TreeItem | null = null
-): TreeContextWithDepth | null => {
-  for (let i = 0; i < nodes.length; i++) {
-    if (nodes[i].id === targetId) return { list: nodes, index: i, node: nodes[i], parent, depth };
-    if (nodes[i].children) {
-      const res = findContextByIdWithDepth(nodes[i].children, targetId, depth + 1, nodes[i]);
-      if (res) return res;
-    }
-  }
-  return null;
-};
-
 const getTitleStyle = (selected: boolean): CSSProperties =>
   selected
     ? {
@@ -233,6 +395,7 @@ const getTitleStyle = (selected: boolean): CSSProperties =>
         overflow: 'hidden',
         textOverflow: 'ellipsis'
       };
+// 未选中时的显示截断，与用户设置的字数上限无关
 const formatTitle = (title: string, selected: boolean): string => {
   const effectiveTitle = title.trim() ? title : PLACEHOLDER_TITLE;
   return selected || effectiveTitle.length <= MAX_TITLE_LENGTH
@@ -240,74 +403,35 @@ const formatTitle = (title: string, selected: boolean): string => {
     : `${effectiveTitle.slice(0, MAX_TITLE_LENGTH)}…`;
 };
 
-const findContextById = (nodes: TreeItem[], targetId: string, parent: TreeItem | null = null): TreeContext | null => {
-  for (let i = 0; i < nodes.length; i++) {
-    if (nodes[i].id === targetId) return { list: nodes, index: i, node: nodes[i], parent };
-    if (nodes[i].children) {
-      const res = findContextById(nodes[i].children, targetId, nodes[i]);
-      if (res) return res;
-    }
-  }
-  return null;
-};
-const containsId = (node: TreeItem, targetId: string): boolean => {
-  if (node.id === targetId) return true;
-  return node.children?.some(child => containsId(child, targetId)) ?? false;
-};
-
-const ensureNodeOpenById = (nodes: TreeItem[], targetId: string): { tree: TreeItem[]; changed: boolean } => {
-  let changed = false;
-  const walk = (list: TreeItem[]): TreeItem[] =>
-    list.map(node => {
-      if (node.id === targetId) {
-        if (node.isOpen) return node;
-        changed = true;
-        return { ...node, isOpen: true };
-      }
-      if (!node.children?.length) return node;
-      const nextChildren = walk(node.children);
-      if (nextChildren !== node.children) {
-        changed = true;
-        return { ...node, children: nextChildren };
-      }
-      return node;
-    });
-  const tree = walk(nodes);
-  return { tree, changed };
-};
-const setAllNodesOpen = (nodes: TreeItem[], open: boolean): TreeItem[] =>
-  nodes.map(node => ({
-    ...node,
-    isOpen: open,
-    children: node.children ? setAllNodesOpen(node.children, open) : []
-  }));
-
-const findNodeById = (nodes: TreeItem[], targetId: string): TreeItem | null => {
-  const ctx = findContextById(nodes, targetId);
-  return ctx?.node ?? null;
-};
-
-const collectSubtreeIds = (node: TreeItem): string[] => {
-  const ids: string[] = [node.id];
-  node.children?.forEach(child => ids.push(...collectSubtreeIds(child)));
-  return ids;
+/** 在 formatTitle 的结果上高亮搜索命中的部分；被截断的部分不再高亮。 */
+const renderTitle = (title: string, selected: boolean, range: MatchRange | undefined): ReactNode => {
+  const text = formatTitle(title, selected);
+  if (!range || !title.trim()) return text;
+  const visible = text === title ? text.length : Math.min(text.length - 1, MAX_TITLE_LENGTH);
+  const start = Math.min(range[0], visible);
+  const end = Math.min(range[1], visible);
+  if (start >= end) return text;
+  return (
+    <>
+      {text.slice(0, start)}
+      <mark className="bg-amber-200/80 text-inherit rounded-sm">{text.slice(start, end)}</mark>
+      {text.slice(end)}
+    </>
+  );
 };
 
-const removeNodesByIds = (nodes: TreeItem[], ids: Set<string>): TreeItem[] =>
-  nodes
-    .filter(n => !ids.has(n.id))
-    .map(n => ({ ...n, children: removeNodesByIds(n.children, ids) }));
+const COMPLETE_CRUMB_COLOR = '#4ade80';
 
-const spawnCrumbsFromElement = (el: HTMLElement) => {
+const spawnCrumbsFromElement = (el: HTMLElement, color?: string) => {
   if (typeof document === 'undefined') return;
   const particleCount = 16;
   const rect = el.getBoundingClientRect();
   const centerX = rect.left + rect.width / 2;
   const centerY = rect.top + rect.height / 2;
-  spawnCrumbsAtPoint(centerX, centerY, particleCount);
+  spawnCrumbsAtPoint(centerX, centerY, particleCount, color);
 };
 
-const spawnCrumbsAtPoint = (centerX: number, centerY: number, particleCount = 16) => {
+const spawnCrumbsAtPoint = (centerX: number, centerY: number, particleCount = 16, color = '#ff6b6b') => {
   if (typeof document === 'undefined') return;
 
   for (let i = 0; i < particleCount; i++) {
@@ -315,7 +439,7 @@ const spawnCrumbsAtPoint = (centerX: number, centerY: number, particleCount = 16
     crumb.style.position = 'absolute';
     crumb.style.width = '6px';
     crumb.style.height = '6px';
-    crumb.style.backgroundColor = '#ff6b6b';
+    crumb.style.backgroundColor = color;
     crumb.style.borderRadius = '50%';
     crumb.style.pointerEvents = 'none';
     crumb.style.zIndex = '9999';
@@ -342,25 +466,6 @@ const spawnCrumbsAtPoint = (centerX: number, centerY: number, particleCount = 16
   }
 };
 
-const getTreeOpenState = (nodes: TreeItem[]): TreeOpenState => {
-  if (!nodes.length) return 'all-closed';
-  let hasOpen = false;
-  let hasClosed = false;
-  const walk = (list: TreeItem[], ancestorClosed: boolean) => {
-    for (const node of list) {
-      const isBranchOpen = !ancestorClosed && !!node.isOpen;
-      if (isBranchOpen) hasOpen = true;
-      else hasClosed = true;
-      if (node.children?.length) walk(node.children, ancestorClosed || !node.isOpen);
-      if (hasOpen && hasClosed) return;
-    }
-  };
-  walk(nodes, false);
-  if (hasOpen && hasClosed) return 'mixed';
-  if (hasOpen) return 'all-open';
-  return 'all-closed';
-};
-
 const TreeStateIcon: FC<{ state: TreeOpenState }> = ({ state }) => (
   <span className="relative inline-flex items-center justify-center">
     <img
@@ -382,118 +487,402 @@ const TreeStateIcon: FC<{ state: TreeOpenState }> = ({ state }) => (
   </span>
 );
 
-const canPlaceNode = (tree: TreeItem[], dragId: string, targetId: string, position: InsertPosition): boolean => {
-  const dragCtx = findContextByIdWithDepth(tree, dragId);
-  const targetCtx = findContextByIdWithDepth(tree, targetId);
-  if (!dragCtx || !targetCtx) return false;
-  const dragHeight = getNodeMaxDepth(dragCtx.node);
-  let baseDepth = targetCtx.depth;
-  if (position === 'inside') baseDepth = targetCtx.depth + 1;
-  return baseDepth + dragHeight - 1 < MAX_DEPTH;
-};
-
-const moveNodeInTree = (data: TreeItem[], dragId: string, targetId: string, position: InsertPosition): TreeItem[] | null => {
-  if (!dragId || dragId === targetId) return null;
-  const newData = JSON.parse(JSON.stringify(data)) as TreeItem[];
-  const dragCtx = findContextById(newData, dragId);
-  const dropCtx = findContextById(newData, targetId);
-  if (!dragCtx || !dropCtx || containsId(dragCtx.node, targetId)) return null;
-
-  const { list: fromList, index: fromIndex } = dragCtx;
-  const { list: targetList, index: dropIndex } = dropCtx;
-
-  if (position === 'inside') {
-    fromList.splice(fromIndex, 1);
-    if (!dropCtx.node.children) dropCtx.node.children = [];
-    dropCtx.node.children.push(dragCtx.node);
-    dropCtx.node.isOpen = true;
-    return newData;
-  }
-
-  let to = position === 'before' ? dropIndex : dropIndex + 1;
-  fromList.splice(fromIndex, 1);
-  if (fromList === targetList && fromIndex < to) to -= 1;
-  targetList.splice(to, 0, dragCtx.node);
-  return newData;
-};
-
 // --- ProjectSorter 主界面 ---
 
 const ProjectSorter: FC = () => {
   const [data, setData] = useState<TreeItem[]>([]);
   const [selectedId, setSelectedId] = useState<string | null>(null);
+  // 多选：Shift/Ctrl 点选或 Shift+方向键扩出的一组节点；少于两项时为空，以 selectedId 为准
+  const [selectionIds, setSelectionIds] = useState<Set<string>>(() => new Set());
+  // 多选后「移到…」的目标选择框
+  const [showMovePicker, setShowMovePicker] = useState(false);
+  // 用户保存的模板；内置模板不在这里
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [showTemplates, setShowTemplates] = useState(false);
+  // 正在存为模板的子树，null 表示命名框关闭
+  const [templateSource, setTemplateSource] = useState<TreeItem[] | null>(null);
+  // 已完成或删除、等着下一次再出现的例行任务，各清单共用
+  const [pendingRepeats, setPendingRepeats] = useState<PendingRepeat[]>([]);
+  // 操作记录（只存本机）与回顾面板
+  const [activity, setActivity] = useState<ActivityEntry[]>([]);
+  const [showActivity, setShowActivity] = useState(false);
   const [pendingEditId, setPendingEditId] = useState<string | null>(null);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
   const [showClearAllConfirm, setShowClearAllConfirm] = useState(false);
-  const [enableOpacity, setEnableOpacity] = useState(DEFAULT_SETTINGS.enableOpacity);
-  const [opacityMode, setOpacityMode] = useState<OpacityMode>(DEFAULT_SETTINGS.opacityMode);
+  const [showMenu, setShowMenu] = useState(false);
+  // 打开菜单时读取的活动标签页，不是网页时为 null
+  const [activeTabPage, setActiveTabPage] = useState<CapturedPage | null>(null);
+  const [pendingImport, setPendingImport] = useState<(ImportResult & { fileName: string }) | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [lists, setLists] = useState<ListsIndex>(() => createDefaultListsIndex(DEFAULT_SETTINGS));
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [showListSwitcher, setShowListSwitcher] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showFocusSettings, setShowFocusSettings] = useState(false);
+  // 层级与字数设置面板打开时读好的各清单快照，null 表示面板关闭
+  const [limitsLists, setLimitsLists] = useState<ListSnapshot[] | null>(null);
+  // 移动模式下方向键直接调整位置（旧版的默认行为），否则方向键移动选中项
+  const [keyboardMoveMode, setKeyboardMoveMode] = useState(false);
+  const [announcement, setAnnouncement] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+  const [scheduleTarget, setScheduleTarget] = useState<{ id: string; anchor: HTMLElement } | null>(null);
+  const [noteEditId, setNoteEditId] = useState<string | null>(null);
+  const [tagTarget, setTagTarget] = useState<{ id: string; anchor: HTMLElement } | null>(null);
+  // null 表示标签筛选栏关闭；选中多个标签时显示带任一标签的任务
+  const [tagFilter, setTagFilter] = useState<string[] | null>(null);
   const [draggingId, setDraggingId] = useState<string | null>(null);
+  // 拖拽中插入线所在的位置，松手时按它提交
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
   const [lengthWarning, setLengthWarning] = useState<{ id: string; excess: number } | null>(null);
   const [snappingIds, setSnappingIds] = useState<Set<string>>(new Set());
   const [snapOverlays, setSnapOverlays] = useState<SnapOverlayEntry[]>([]);
   const [snapPlaceholders, setSnapPlaceholders] = useState<SnapPlaceholder[]>([]);
+  const [archive, setArchive] = useState<CompletedEntry[]>([]);
+  const [showArchive, setShowArchive] = useState(false);
+  // 「眼前一件事」视图与当前看到第几个叶子
+  const [showNextAction, setShowNextAction] = useState(false);
+  const [nextActionIndex, setNextActionIndex] = useState(0);
+  // null 表示搜索框关闭
+  const [searchQuery, setSearchQuery] = useState<string | null>(null);
+  const [undoToast, setUndoToast] = useState<string | null>(null);
+  const [quarantineCount, setQuarantineCount] = useState(0);
   const treeOpenState = useMemo(() => getTreeOpenState(data), [data]);
+  const activeList = lists.lists.find(list => list.id === lists.activeId) ?? lists.lists[0];
+  const activeListId = activeList.id;
+  const { enableOpacity, profileId } = activeList.view;
+  const focusProfile = resolveFocusProfile(settings.profiles, profileId);
+  const limits = settings.limits;
+  const focus = useMemo<FocusRender | null>(() => {
+    if (!enableOpacity) return null;
+    return { profile: focusProfile, leafRanks: focusProfile.order === 'leaf' ? computeLeafRanks(data) : null };
+  }, [enableOpacity, focusProfile, data]);
+  const listArchive = useMemo(() => archive.filter(entry => entry.listId === activeListId), [archive, activeListId]);
+  const allTags = useMemo(() => collectTags(data), [data]);
+  const taggedTree = useMemo(() => (tagFilter?.length ? filterTreeByTags(data, tagFilter) : data), [data, tagFilter]);
+  const searchResult = useMemo(() => (searchQuery?.trim() ? searchTree(taggedTree, searchQuery) : null), [taggedTree, searchQuery]);
+  // 屏幕上实际渲染的树：筛选、搜索时是过滤后的副本，临时展开不会写回 data
+  const viewTree = searchResult?.tree ?? taggedTree;
+  const isFiltered = viewTree !== data;
+  // roving tabindex：选中项不在屏幕上（收起、被筛掉）时落到第一项，树始终能用 Tab 进入
+  const focusableId = useMemo(
+    () => (selectedId && getVisibleIds(viewTree).includes(selectedId) ? selectedId : viewTree[0]?.id ?? null),
+    [selectedId, viewTree]
+  );
+  const isMultiSelect = selectionIds.size > 1;
+  const selectionRoots = useMemo(() => (isMultiSelect ? getSelectionRoots(data, selectionIds) : []), [isMultiSelect, data, selectionIds]);
+  // 拿起的节点在多选里时整组一起拖
+  const draggedIds = useMemo(() => {
+    if (!draggingId) return new Set<string>();
+    return isMultiSelect && selectionIds.has(draggingId) ? selectionIds : new Set([draggingId]);
+  }, [draggingId, isMultiSelect, selectionIds]);
 
-  const dataInitializedRef = useRef(false);
-  const settingsInitializedRef = useRef(false);
+  const storageInitializedRef = useRef(false);
+  const persistedJsonRef = useRef<Map<string, string>>(new Map());
   const listRef = useRef<HTMLDivElement>(null);
   const autoScrollFrameRef = useRef<number | null>(null);
   const autoScrollDirectionRef = useRef<ScrollDirection>(0);
   const warningTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const headerRefs = useRef<Map<string, HTMLDivElement>>(new Map());
   const liRefs = useRef<Map<string, HTMLLIElement>>(new Map());
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const historyRef = useRef<{ past: HistorySnapshot[]; future: HistorySnapshot[] }>({ past: [], future: [] });
+  const lastSnapshotRef = useRef<HistorySnapshot | null>(null);
+  const skipHistoryRef = useRef(false);
+  // 仅展开/收起本不算一步，批量收起是用户明确的一次操作，要能撤销
+  const forceHistoryStepRef = useRef(false);
+  // 剪切、粘贴在快照里只是一删一建，由操作处顺带告诉操作记录，好合成一次移动
+  const activityHintRef = useRef<ActivityHint>({});
+  const undoToastTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastRejectedDropRef = useRef<string | null>(null);
+  // Shift 扩选的起点，多选期间保持不变
+  const selectionAnchorRef = useRef<string | null>(null);
+  const dragGhostRef = useRef<HTMLDivElement>(null);
+  const dragPointRef = useRef<DragPoint>({ x: 0, y: 0 });
+  const pressRef = useRef<PointerPress | null>(null);
+  const nestHoverRef = useRef<{ id: string; since: number } | null>(null);
+  const nestTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const suppressClickRef = useRef(false);
+  // 非当前清单的任务树缓存，切换时直接取用
+  const listCacheRef = useRef<Map<string, TreeItem[]>>(new Map());
+  const activeListIdRef = useRef(activeListId);
 
   useEffect(() => {
       return () => {
         if (warningTimerRef.current) clearTimeout(warningTimerRef.current);
+        if (undoToastTimerRef.current) clearTimeout(undoToastTimerRef.current);
       };
   }, []);
 
-  // 初始化：流程复用旧逻辑，这里仅保留关键步骤注解
+  useEffect(() => { activeListIdRef.current = activeListId; }, [activeListId]);
+
+  const loadSafely = useCallback(<T,>(schema: DocumentSchema<T>): Promise<LoadedDocument<T>> =>
+    loadDocument(schema).catch(() => ({ value: undefined, repaired: 0, quarantined: false })), []);
+
+  const loadListTree = useCallback(async (listId: string): Promise<TreeItem[]> => {
+    const cached = listCacheRef.current.get(listId);
+    if (cached) return cached;
+    const schema = listTreeSchema(listId);
+    const saved = await loadSafely(schema);
+    const tree = saved.value ?? [];
+    if (saved.value) persistedJsonRef.current.set(schema.key, JSON.stringify(tree));
+    listCacheRef.current.set(listId, tree);
+    return tree;
+  }, [loadSafely]);
+
+  // 初始化：清单索引、当前清单、归档与设置一次性读齐（含旧版本迁移），保证首屏只渲染一次、也不会被记进撤销历史
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      loadSafely(LISTS_SCHEMA),
+      loadSafely(ARCHIVE_SCHEMA),
+      loadSafely(SETTINGS_SCHEMA),
+      loadSafely(TEMPLATES_SCHEMA),
+      loadSafely(REPEATS_SCHEMA),
+      loadSafely(ACTIVITY_SCHEMA)
+    ]).then(async ([savedLists, savedArchive, savedSettings, savedTemplates, savedRepeats, savedActivity]) => {
+      const settings = savedSettings.value ?? DEFAULT_SETTINGS;
+      // 升级到多清单之前只有一棵树：它和当时的视图设置一起成为默认清单
+      const index = savedLists.value ?? createDefaultListsIndex(settings);
+      const dataSchema = listTreeSchema(index.activeId);
+      const savedData = await loadSafely(dataSchema);
+      if (cancelled) return;
+      const persisted = persistedJsonRef.current;
+      skipHistoryRef.current = true;
+      if (savedData.value) persisted.set(dataSchema.key, JSON.stringify(savedData.value));
+      setData(wakeSnoozedNodes(savedData.value ?? (savedLists.value ? [] : FALLBACK_DATA), Date.now()).tree);
+      if (savedLists.value) persisted.set(LISTS_SCHEMA.key, JSON.stringify(index));
+      setLists(index);
+      if (savedArchive.value) {
+        persisted.set(ARCHIVE_SCHEMA.key, JSON.stringify(savedArchive.value));
+        setArchive(savedArchive.value);
+      }
+      if (savedSettings.value) persisted.set(SETTINGS_SCHEMA.key, JSON.stringify(settings));
+      setSettings(settings);
+      if (savedTemplates.value) {
+        persisted.set(TEMPLATES_SCHEMA.key, JSON.stringify(savedTemplates.value));
+        setTemplates(savedTemplates.value);
+      }
+      if (savedRepeats.value) {
+        persisted.set(REPEATS_SCHEMA.key, JSON.stringify(savedRepeats.value));
+        setPendingRepeats(savedRepeats.value);
+      }
+      if (savedActivity.value) {
+        persisted.set(ACTIVITY_SCHEMA.key, JSON.stringify(savedActivity.value));
+        setActivity(savedActivity.value);
+      }
+      if ([savedLists, savedData, savedArchive, savedSettings, savedTemplates, savedRepeats, savedActivity].some(doc => doc.quarantined)) {
+        loadQuarantine().then(entries => setQuarantineCount(entries.length));
+      }
+      storageInitializedRef.current = true;
+      // 由全局快捷键打开时直接进入新建
+      consumeQuickAddRequest().then(requested => { if (requested && !cancelled) quickAddRef.current(); }).catch(() => {});
+      index.lists.filter(list => list.id !== index.activeId).forEach(list => { void loadListTree(list.id); });
+    });
+    return () => { cancelled = true; };
+  }, [loadSafely, loadListTree]);
+
+  // 推迟到期的任务自动回到同级最前面；这是时间推移带来的变化，不进入撤销历史
   useEffect(() => {
-    const saved = localStorage.getItem(DATA_STORAGE_KEY);
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        if (Array.isArray(parsed)) {
-          setData(normalizeTreeIds(parsed).tree);
-          dataInitializedRef.current = true;
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      setData(prev => {
+        const { tree, woken } = wakeSnoozedNodes(prev, current);
+        if (!woken.length) return prev;
+        skipHistoryRef.current = true;
+        return tree;
+      });
+    }, SCHEDULE_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // 与上次写入/收到的内容相同时跳过，避免把远端变更原样写回形成回声
+  const persist = useCallback(<T,>(schema: DocumentSchema<T>, value: T) => {
+    if (!storageInitializedRef.current) return;
+    const json = JSON.stringify(value);
+    if (persistedJsonRef.current.get(schema.key) === json) return;
+    persistedJsonRef.current.set(schema.key, json);
+    saveDocument(schema, value).catch(e => console.warn(`[storage] 写入 ${schema.key} 失败`, e));
+  }, []);
+
+  // data 与 activeListId 总是在同一次渲染里一起切换，这里写入的一定是当前清单自己的树
+  useEffect(() => { persist(listTreeSchema(activeListId), data); }, [data, activeListId, persist]);
+  useEffect(() => { persist(LISTS_SCHEMA, lists); }, [lists, persist]);
+  useEffect(() => { persist(ARCHIVE_SCHEMA, archive); }, [archive, persist]);
+  useEffect(() => { persist(SETTINGS_SCHEMA, settings); }, [settings, persist]);
+  useEffect(() => { persist(TEMPLATES_SCHEMA, templates); }, [templates, persist]);
+  useEffect(() => { persist(REPEATS_SCHEMA, pendingRepeats); }, [pendingRepeats, persist]);
+  useEffect(() => { persist(ACTIVITY_SCHEMA, activity); }, [activity, persist]);
+
+  const resetHistory = useCallback(() => {
+    historyRef.current = { past: [], future: [] };
+    skipHistoryRef.current = true;
+  }, []);
+
+  // 切换清单：撤销历史只属于单个清单，换清单时从头开始
+  const showList = useCallback((listId: string, tree: TreeItem[]) => {
+    resetHistory();
+    listCacheRef.current.set(listId, tree);
+    setData(wakeSnoozedNodes(tree, Date.now()).tree);
+    setLists(prev => ({ ...prev, activeId: listId }));
+    setSelectedId(null);
+    setDeleteConfirmId(null);
+    setPendingEditId(null);
+    setShowArchive(false);
+    setNextActionIndex(0);
+    setSearchQuery(null);
+    setTagFilter(null);
+    setUndoToast(null);
+  }, [resetHistory]);
+
+  // 其它弹窗或其它设备写入后收敛到同一份数据；远端变更不进入撤销历史，无法识别的远端数据直接忽略
+  useEffect(() => storage.subscribe((key, raw) => {
+    if (!storageInitializedRef.current) return;
+    try {
+      const listId = listIdFromTreeKey(key);
+      if (listId !== null) {
+        const { value } = decodeDocument(listTreeSchema(listId), raw);
+        persistedJsonRef.current.set(key, JSON.stringify(value));
+        if (listId === activeListIdRef.current) {
+          skipHistoryRef.current = true;
+          setData(value);
+        } else {
+          listCacheRef.current.set(listId, value);
+        }
+      } else if (key === LISTS_SCHEMA.key) {
+        const { value } = decodeDocument(LISTS_SCHEMA, raw);
+        const activeId = activeListIdRef.current;
+        if (!value.lists.some(list => list.id === activeId)) {
+          // 当前清单在别处被删除：切到对方记录的清单
+          loadListTree(value.activeId).then(tree => {
+            setLists(value);
+            showList(value.activeId, tree);
+          });
           return;
         }
-      } catch (e) {}
-    }
-    setData(FALLBACK_DATA);
-    dataInitializedRef.current = true;
-  }, []);
+        // 各弹窗各自停留在自己的清单上，不跟随远端切换
+        const merged = { ...value, activeId };
+        persistedJsonRef.current.set(key, JSON.stringify(merged));
+        setLists(merged);
+      } else if (key === ARCHIVE_SCHEMA.key) {
+        const { value } = decodeDocument(ARCHIVE_SCHEMA, raw);
+        persistedJsonRef.current.set(key, JSON.stringify(value));
+        skipHistoryRef.current = true;
+        setArchive(value);
+      } else if (key === SETTINGS_SCHEMA.key) {
+        const { value } = decodeDocument(SETTINGS_SCHEMA, raw);
+        persistedJsonRef.current.set(key, JSON.stringify(value));
+        setSettings(value);
+      } else if (key === TEMPLATES_SCHEMA.key) {
+        const { value } = decodeDocument(TEMPLATES_SCHEMA, raw);
+        persistedJsonRef.current.set(key, JSON.stringify(value));
+        setTemplates(value);
+      } else if (key === REPEATS_SCHEMA.key) {
+        const { value } = decodeDocument(REPEATS_SCHEMA, raw);
+        persistedJsonRef.current.set(key, JSON.stringify(value));
+        setPendingRepeats(value);
+      } else if (key === ACTIVITY_SCHEMA.key) {
+        const { value } = decodeDocument(ACTIVITY_SCHEMA, raw);
+        persistedJsonRef.current.set(key, JSON.stringify(value));
+        setActivity(value);
+      }
+    } catch (e) {}
+  }), [loadListTree, showList]);
 
-  useEffect(() => {
-    if (dataInitializedRef.current) localStorage.setItem(DATA_STORAGE_KEY, JSON.stringify(data));
-  }, [data]);
+  const handleDownloadQuarantine = async () => {
+    const entries = await loadQuarantine();
+    downloadTextFile(`plan-p-backup-${new Date().toISOString().slice(0, 10)}.json`, JSON.stringify(entries, null, 2), 'application/json');
+  };
 
+  // 历史记录：观察 data/archive 的每次变化，把变化前的快照压栈；仅展开/收起不算一步。
+  // 操作记录跟着同一步走，由前后快照比对得出（见 activity.ts）
   useEffect(() => {
-    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
-    if (saved) {
-        try {
-            const p = JSON.parse(saved);
-            setEnableOpacity(p.enableOpacity ?? true);
-            setOpacityMode(p.opacityMode ?? 2);
-            settingsInitializedRef.current = true;
-            return;
-        } catch(e){}
+    const last = lastSnapshotRef.current;
+    if (last && last.data === data && last.archive === archive) return;
+    lastSnapshotRef.current = { data, archive };
+    if (!last) return;
+    const forced = forceHistoryStepRef.current;
+    forceHistoryStepRef.current = false;
+    const hint = activityHintRef.current;
+    activityHintRef.current = {};
+    if (skipHistoryRef.current) {
+      skipHistoryRef.current = false;
+      return;
     }
-    setEnableOpacity(DEFAULT_SETTINGS.enableOpacity);
-    setOpacityMode(DEFAULT_SETTINGS.opacityMode);
-    settingsInitializedRef.current = true;
+    if (!forced && last.archive === archive && isSameTreeIgnoringOpen(last.data, data)) return;
+    const history = historyRef.current;
+    history.past = [...history.past, last].slice(-HISTORY_LIMIT);
+    history.future = [];
+    const entries = diffActivity(last, { data, archive }, activeListIdRef.current, Date.now(), hint);
+    if (entries.length) setActivity(prev => appendActivity(prev, entries));
+  }, [data, archive]);
+
+  const applySnapshot = useCallback((snapshot: HistorySnapshot) => {
+    skipHistoryRef.current = true;
+    setData(snapshot.data);
+    setArchive(snapshot.archive);
+    setDeleteConfirmId(null);
+    setSelectedId(prev => (prev && findContextById(snapshot.data, prev) ? prev : null));
   }, []);
 
+  const undo = useCallback(() => {
+    const history = historyRef.current;
+    const current = lastSnapshotRef.current;
+    const previous = history.past[history.past.length - 1];
+    if (!previous || !current) return;
+    history.past = history.past.slice(0, -1);
+    history.future = [...history.future, current];
+    applySnapshot(previous);
+  }, [applySnapshot]);
+
+  const redo = useCallback(() => {
+    const history = historyRef.current;
+    const current = lastSnapshotRef.current;
+    const next = history.future[history.future.length - 1];
+    if (!next || !current) return;
+    history.future = history.future.slice(0, -1);
+    history.past = [...history.past, current];
+    applySnapshot(next);
+  }, [applySnapshot]);
+
+  const showUndoToast = (message: string) => {
+    if (undoToastTimerRef.current) clearTimeout(undoToastTimerRef.current);
+    setUndoToast(message);
+    undoToastTimerRef.current = setTimeout(() => setUndoToast(null), UNDO_TOAST_MS);
+  };
+
+  const handleUndoFromToast = () => {
+    if (undoToastTimerRef.current) clearTimeout(undoToastTimerRef.current);
+    setUndoToast(null);
+    undo();
+  };
+
+  // 有弹窗时快捷键不动任务树，免得弹窗里拿着的是旧数据
+  const hasOpenDialog = !!(showShortcuts || showFocusSettings || limitsLists || showMovePicker || showTemplates || templateSource || showActivity || showArchive || showClearAllConfirm || pendingImport || importError);
+
   useEffect(() => {
-    if (settingsInitializedRef.current) localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({ enableOpacity, opacityMode }));
-  }, [enableOpacity, opacityMode]);
+    const k = (e: KeyboardEvent) => {
+      const tag = (e.target as HTMLElement).tagName;
+      if (tag === 'INPUT' || tag === 'TEXTAREA' || hasOpenDialog) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', k);
+    return () => window.removeEventListener('keydown', k);
+  }, [undo, redo, hasOpenDialog]);
 
   useEffect(() => {
     const s = document.createElement('style');
     s.textContent = `
-      @keyframes drag-slide { from { transform: translateY(2px); } to { transform: translateY(0); } }
+      .dragging, .dragging * { cursor: grabbing !important; }
+      .drop-rejected, .drop-rejected * { cursor: not-allowed !important; }
       @keyframes snapLeft {
         0% { transform: translateX(0) rotate(0); opacity: 1; }
         70% { transform: translateX(-80px) rotate(-12deg); opacity: 1; }
@@ -530,60 +919,281 @@ const ProjectSorter: FC = () => {
   useEffect(() => {
     const h = (e: MouseEvent) => {
       if (!(e.target as HTMLElement).closest('.delete-action-area')) setDeleteConfirmId(null);
-      if (!(e.target as HTMLElement).closest('.project-item')) setSelectedId(null);
+      // 在清单切换器里操作时保留选中项，用于「移到此清单」
+      if (!(e.target as HTMLElement).closest('.project-item, .list-switcher, .search-bar')) setSelectedId(null);
+      if (!(e.target as HTMLElement).closest('.toolbar-menu')) setShowMenu(false);
+      if (!(e.target as HTMLElement).closest('.list-switcher')) setShowListSwitcher(false);
+      if (!(e.target as HTMLElement).closest('.schedule-popover, .schedule-action')) setScheduleTarget(null);
+      if (!(e.target as HTMLElement).closest('.tag-popover, .tag-action')) setTagTarget(null);
     };
     document.addEventListener('click', h);
     return () => document.removeEventListener('click', h);
   }, []);
 
+  // 读屏播报：同一句话连续出现时追加零宽字符，保证 live region 仍会重新朗读
+  const announce = useCallback((message: string) => {
+    setAnnouncement(prev => (prev === message ? `${message}\u200B` : message));
+  }, []);
+
+  // 到期的例行任务放回原处：打开弹窗、切换清单与定时检查都会走到这里；属于时间推移，不进入撤销历史
+  useEffect(() => {
+    if (!storageInitializedRef.current || !hasDueRepeats(pendingRepeats, activeListId, now)) return;
+    const result = materializeRepeats(data, pendingRepeats, activeListId, now, limits.maxDepth);
+    if (result.created.length) {
+      skipHistoryRef.current = true;
+      setData(result.tree);
+      setActivity(prev => appendActivity(prev, recordCreated(result.created, activeListId, now)));
+      announce(result.created.length > 1
+        ? `${result.created.length} 项例行任务又出现了`
+        : `例行任务「${formatTitle(result.created[0].title, false)}」又出现了`);
+    }
+    setPendingRepeats(result.pending);
+  }, [data, pendingRepeats, activeListId, now, limits.maxDepth, announce]);
+
+  const announcePosition = useCallback((tree: TreeItem[], id: string) => {
+    const ctx = findContextByIdWithDepth(tree, id);
+    if (!ctx) return;
+    announce(`「${formatTitle(ctx.node.title, false)}」已移到第 ${ctx.depth + 1} 层，第 ${ctx.index + 1} 项，共 ${ctx.list.length} 项`);
+  }, [announce]);
+
   const moveItem = useCallback((dir: MoveDirection) => {
     if (!selectedId) return;
-    setData(prev => {
-        const newData = JSON.parse(JSON.stringify(prev));
-        const ctx = findContextByIdWithDepth(newData, selectedId);
-        if (!ctx) return prev;
-        const { list, index, node, depth } = ctx;
-        const parent = ctx.parent;
-        const nodeHeight = getNodeMaxDepth(node);
-        if (dir === 'up' && index > 0) [list[index], list[index-1]] = [list[index-1], list[index]];
-        else if (dir === 'down' && index < list.length - 1) [list[index], list[index+1]] = [list[index+1], list[index]];
-        else if (dir === 'right' && index < list.length - 1) {
-            const sibling = list[index + 1];
-            if (!sibling) return prev;
-            const parentCtx = findContextByIdWithDepth(newData, sibling.id);
-            if (!parentCtx) return prev;
-            const baseDepth = parentCtx.depth + 1;
-            if (baseDepth + nodeHeight - 1 >= MAX_DEPTH) return prev;
-            list.splice(index, 1);
-            if (!parentCtx.node.children) parentCtx.node.children = [];
-            parentCtx.node.children.unshift(node);
-            parentCtx.node.isOpen = true;
-        }
-        else if (dir === 'left' && parent) {
-            const pCtx = findContextById(newData, parent.id);
-            if (pCtx) {
-                list.splice(index, 1);
-                pCtx.list.splice(pCtx.index, 0, node);
-            }
+    // 筛选时看不见的兄弟节点也在 data 里，交换后屏幕上看不出变化
+    if (isFiltered) {
+      announce(FILTERED_MOVE_MESSAGE);
+      return;
+    }
+    const newData = JSON.parse(JSON.stringify(data));
+    const ctx = findContextByIdWithDepth(newData, selectedId);
+    if (!ctx) return;
+    const { list, index, node } = ctx;
+    const parent = ctx.parent;
+    const nodeHeight = getNodeMaxDepth(node);
+    if (dir === 'up' && index > 0) [list[index], list[index-1]] = [list[index-1], list[index]];
+    else if (dir === 'down' && index < list.length - 1) [list[index], list[index+1]] = [list[index+1], list[index]];
+    else if (dir === 'right' && index < list.length - 1) {
+        const sibling = list[index + 1];
+        if (!sibling) return;
+        const parentCtx = findContextByIdWithDepth(newData, sibling.id);
+        if (!parentCtx) return;
+        const baseDepth = parentCtx.depth + 1;
+        if (baseDepth + nodeHeight - 1 >= limits.maxDepth) {
+          announce(formatDepthLimitMessage(limits.maxDepth));
+          return;
         }
-        else return prev;
-        return newData;
-    });
+        list.splice(index, 1);
+        if (!parentCtx.node.children) parentCtx.node.children = [];
+        parentCtx.node.children.unshift(node);
+        parentCtx.node.isOpen = true;
+    }
+    else if (dir === 'left' && parent) {
+        const pCtx = findContextById(newData, parent.id);
+        if (!pCtx) return;
+        list.splice(index, 1);
+        pCtx.list.splice(pCtx.index, 0, node);
+    }
+    else return;
+    setData(newData);
+    announcePosition(newData, selectedId);
+  }, [selectedId, data, isFiltered, limits.maxDepth, announce, announcePosition]);
+
+  // 焦点跟随选中项（roving tabindex）；正在输入时不抢焦点
+  useEffect(() => {
+    if (!selectedId) return;
+    headerRefs.current.get(selectedId)?.scrollIntoView({ block: 'nearest' });
+    const active = document.activeElement;
+    if (active && (active.tagName === 'INPUT' || active.tagName === 'TEXTAREA')) return;
+    liRefs.current.get(selectedId)?.focus({ preventScroll: true });
   }, [selectedId]);
 
+  const selectByOffset = (offset: 1 | -1) => {
+    const visible = getVisibleIds(viewTree);
+    if (!visible.length) return;
+    const current = selectedId ? visible.indexOf(selectedId) : -1;
+    const next = current === -1
+      ? (offset > 0 ? 0 : visible.length - 1)
+      : Math.max(0, Math.min(visible.length - 1, current + offset));
+    setSelectionIds(new Set());
+    setSelectedId(visible[next]);
+  };
+
+  /** 从锚点到 id 的整段（按屏幕顺序）设为多选，id 成为当前项；锚点不可见时从当前项或 id 本身算起。返回选中的项数。 */
+  const selectRangeTo = (id: string): number => {
+    const visible = getVisibleIds(viewTree);
+    const to = visible.indexOf(id);
+    if (to === -1) return 0;
+    const candidates = isMultiSelect ? [selectionAnchorRef.current, selectedId] : [selectedId];
+    const anchor = candidates.find(candidate => candidate && visible.includes(candidate)) ?? id;
+    const from = visible.indexOf(anchor);
+    selectionAnchorRef.current = anchor;
+    const range = visible.slice(Math.min(from, to), Math.max(from, to) + 1);
+    setSelectionIds(range.length > 1 ? new Set(range) : new Set());
+    setSelectedId(id);
+    return range.length;
+  };
+
+  const extendSelectionByOffset = (offset: 1 | -1) => {
+    const visible = getVisibleIds(viewTree);
+    if (!visible.length) return;
+    const current = selectedId ? visible.indexOf(selectedId) : -1;
+    if (current === -1) {
+      selectByOffset(offset);
+      return;
+    }
+    const count = selectRangeTo(visible[Math.max(0, Math.min(visible.length - 1, current + offset))]);
+    announce(count > 1 ? `已选 ${count} 项` : '已取消多选');
+  };
+
+  // 删除后选中屏幕上紧随其后的节点，没有则选中前一个，方便连续操作
+  const selectAfterRemoval = (id: string) => {
+    const node = findNodeById(data, id);
+    if (!node) return;
+    const removed = new Set(collectSubtreeIds(node));
+    const visible = getVisibleIds(viewTree);
+    const index = visible.indexOf(id);
+    const next = visible.slice(index + 1).find(v => !removed.has(v)) ?? visible.slice(0, index).reverse().find(v => !removed.has(v));
+    setSelectedId(next ?? null);
+  };
+
+  const handleTreeKeyDown = (e: KeyboardEvent) => {
+    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+    const direction = ARROW_DIRECTIONS[e.key];
+    if (direction && selectedId && (e.altKey || keyboardMoveMode)) {
+      e.preventDefault();
+      moveItem(direction);
+      return;
+    }
+    if (key === 'm') {
+      if (isFiltered && !keyboardMoveMode) announce(FILTERED_MOVE_MESSAGE);
+      else setKeyboardMoveMode(prev => !prev);
+      return;
+    }
+    if (e.shiftKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown' || key === 'k' || key === 'j')) {
+      e.preventDefault();
+      extendSelectionByOffset(e.key === 'ArrowUp' || key === 'k' ? -1 : 1);
+      return;
+    }
+    if (isMultiSelect && (e.key === 'Delete' || e.key === 'Backspace')) {
+      e.preventDefault();
+      handleBulkDelete();
+      return;
+    }
+    if (e.key === 'ArrowUp' || key === 'k') {
+      e.preventDefault();
+      selectByOffset(-1);
+      return;
+    }
+    if (e.key === 'ArrowDown' || key === 'j') {
+      e.preventDefault();
+      selectByOffset(1);
+      return;
+    }
+    if (!selectedId) return;
+    // 展开、收起与左右移动按屏幕上的树来：筛选或搜索时子任务可能被滤掉，祖先只是临时展开
+    const ctx = findContextById(viewTree, selectedId);
+    const savedNode = findNodeById(data, selectedId);
+    if (!ctx || !savedNode) return;
+    const { node } = ctx;
+    // 过滤出的副本上的展开状态是临时的，收起或展开都会写回 data，这时只移动选中项
+    const canToggle = node.children.length > 0 && node === savedNode;
+    if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      if (!node.children.length) return;
+      if (node.isOpen) setSelectedId(node.children[0].id);
+      else if (canToggle) toggleOpen(node.id);
+    } else if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      if (canToggle && node.isOpen) toggleOpen(node.id);
+      else if (ctx.parent) setSelectedId(ctx.parent.id);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      if (isFiltered) {
+        announce(FILTERED_MOVE_MESSAGE);
+        return;
+      }
+      const next = e.shiftKey ? outdentNodeInTree(data, node.id) : indentNodeInTree(data, node.id, limits.maxDepth);
+      if (next) {
+        setData(next);
+        announcePosition(next, node.id);
+      } else if (!e.shiftKey && ctx.index > 0) {
+        announce(formatDepthLimitMessage(limits.maxDepth));
+      }
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      handleAddSibling(node.id);
+    } else if (e.key === 'F2') {
+      e.preventDefault();
+      setPendingEditId(node.id);
+    } else if (key === 'n') {
+      e.preventDefault();
+      setNoteEditId(node.id);
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      if (deleteConfirmId === node.id || !savedNode.children.length) {
+        selectAfterRemoval(node.id);
+        confirmDelete(node.id);
+      } else {
+        // 有子任务时沿用鼠标删除的二次确认：再按一次 Delete 才真正删除
+        setDeleteConfirmId(node.id);
+        announce(`「${formatTitle(node.title, false)}」包含 ${collectSubtreeIds(savedNode).length - 1} 个子任务，再按一次 Delete 确认删除`);
+      }
+    } else if (e.key === ' ') {
+      e.preventDefault();
+      if (canToggle) toggleOpen(node.id);
+    }
+  };
+
+  const treeKeyDownRef = useRef(handleTreeKeyDown);
+  treeKeyDownRef.current = handleTreeKeyDown;
+
   useEffect(() => {
     const k = (e: KeyboardEvent) => {
-        if (!selectedId || (e.target as HTMLElement).tagName === 'INPUT') return;
-        if (['ArrowUp','ArrowDown','ArrowLeft','ArrowRight'].includes(e.key)) { e.preventDefault(); }
-        if (e.key === 'ArrowUp') moveItem('up');
-        if (e.key === 'ArrowDown') moveItem('down');
-        if (e.key === 'ArrowRight') moveItem('right');
-        if (e.key === 'ArrowLeft') moveItem('left');
-        if (e.key === 'Enter') setSelectedId(null);
+        const target = e.target as HTMLElement;
+        if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || e.ctrlKey || e.metaKey) return;
+        // 只有 ?、/、f 是全局快捷键；其余按键在焦点落在任务树里时才交给树，工具栏按钮、链接照常响应
+        const inTree = !!target.closest('[role="tree"]');
+        if (e.key === '?') {
+          e.preventDefault();
+          setShowShortcuts(prev => !prev);
+          return;
+        }
+        if (e.key === 'Escape') {
+          if (showShortcuts) setShowShortcuts(false);
+          else if (showFocusSettings) setShowFocusSettings(false);
+          else if (limitsLists) setLimitsLists(null);
+          else if (showMovePicker) setShowMovePicker(false);
+          else if (showTemplates) setShowTemplates(false);
+          else if (templateSource) setTemplateSource(null);
+          else if (showActivity) setShowActivity(false);
+          else if (showArchive) setShowArchive(false);
+          else if (showClearAllConfirm) setShowClearAllConfirm(false);
+          else if (importError) setImportError(null);
+          else if (pendingImport) setPendingImport(null);
+          else if (showNextAction) setShowNextAction(false);
+          else if (!inTree) return;
+          else if (deleteConfirmId) setDeleteConfirmId(null);
+          else if (keyboardMoveMode) setKeyboardMoveMode(false);
+          else if (isMultiSelect) setSelectionIds(new Set());
+          else setSelectedId(null);
+          return;
+        }
+        if (hasOpenDialog) return;
+        if (e.key === '/') {
+          e.preventDefault();
+          openSearchRef.current();
+          return;
+        }
+        if (e.key === 'f' || e.key === 'F') {
+          e.preventDefault();
+          toggleNextActionRef.current();
+          return;
+        }
+        if (showNextAction || !inTree) return;
+        treeKeyDownRef.current(e);
     };
     window.addEventListener('keydown', k);
     return () => { window.removeEventListener('keydown', k); };
-  }, [selectedId, moveItem]);
+  }, [showShortcuts, showFocusSettings, limitsLists, showMovePicker, showTemplates, templateSource, showActivity, showNextAction, deleteConfirmId, keyboardMoveMode, isMultiSelect, showArchive, showClearAllConfirm, importError, pendingImport, hasOpenDialog]);
 
   const toggleOpen = (id: string) => setData(prev => {
     const rec = (nodes: TreeItem[]): TreeItem[] => nodes.map(n => ({ ...n, isOpen: n.id === id ? !n.isOpen : n.isOpen, children: rec(n.children) }));
@@ -591,7 +1201,7 @@ const ProjectSorter: FC = () => {
   });
 
   const handleAdd = (parentId: string | null, parentLevel: number) => {
-    if (parentId && parentLevel >= MAX_DEPTH - 1) return;
+    if (parentId && parentLevel >= limits.maxDepth - 1) return;
     setSelectedId(null);
     setData(prev => {
         const u = collectIds(prev);
@@ -606,14 +1216,59 @@ const ProjectSorter: FC = () => {
     });
   };
 
-  const handleSelect = (id: string) => {
-    setSelectedId(prev => (prev === id ? null : id));
+  // 快捷键新建：先回到完整清单，保证新节点看得见
+  const quickAdd = () => {
+    setShowArchive(false);
+    setShowNextAction(false);
+    setSearchQuery(null);
+    setTagFilter(null);
+    handleAdd(null, -1);
+  };
+  const quickAddRef = useRef(quickAdd);
+  quickAddRef.current = quickAdd;
+
+  // 弹窗开着时再按全局快捷键
+  useEffect(() => onQuickAddRequest(() => {
+    if (!storageInitializedRef.current) return;
+    consumeQuickAddRequest().then(requested => { if (requested) quickAddRef.current(); }).catch(() => {});
+  }), []);
+
+  const handleAddSibling = (id: string) => {
+    const ctx = findContextByIdWithDepth(data, id);
+    if (!ctx) return;
+    const n: TreeItem = { id: generateUniqueId(collectIds(data)), title: '', isOpen: true, children: [] };
+    setData(prev => insertNodeAt(prev, ctx.parent?.id ?? null, ctx.index + 1, n));
+    setSelectedId(n.id);
+    setPendingEditId(n.id);
+  };
+
+  // Shift 点击选中一段，Ctrl/⌘ 点击增减一项；普通点击回到单选，多选时点谁就只留谁
+  const handleSelect = (id: string, e?: { shiftKey: boolean; ctrlKey: boolean; metaKey: boolean }) => {
+    if (e?.shiftKey) {
+      selectRangeTo(id);
+      return;
+    }
+    if (e?.ctrlKey || e?.metaKey) {
+      toggleSelectionItem(id);
+      return;
+    }
+    setSelectionIds(new Set());
+    setSelectedId(prev => (prev === id && !isMultiSelect ? null : id));
     setData(prev => {
       const { tree, changed } = ensureNodeOpenById(prev, id);
       return changed ? tree : prev;
     });
   };
 
+  const toggleSelectionItem = (id: string) => {
+    const next = new Set(isMultiSelect ? selectionIds : selectedId ? [selectedId] : []);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    selectionAnchorRef.current = id;
+    setSelectionIds(next.size > 1 ? next : new Set());
+    setSelectedId(next.has(id) ? id : Array.from(next).pop() ?? null);
+  };
+
   const handleToggleAllNodes = () => {
     setData(prev => {
       if (!prev.length) return prev;
@@ -637,21 +1292,26 @@ const ProjectSorter: FC = () => {
   };
 
   const handleRename = (id: string, newTitle: string) => {
-    const rawTitle = newTitle.trim() || '未命名节点';
-    const sanitizedTitle = rawTitle.slice(0, MAX_TITLE_LENGTH);
+    // 标题里的 #标签 单独保存；只输入了标签时保留原标题
+    const { title, tags } = parseTitleTags(newTitle);
+    const rawTitle = title || (tags.length ? findNodeById(data, id)?.title.trim() : '') || '未命名节点';
+    const sanitizedTitle = rawTitle.slice(0, limits.maxTitleLength);
     setData(prev => {
       const rec = (nodes: TreeItem[]): TreeItem[] =>
         nodes.map(node =>
-          node.id === id ? { ...node, title: sanitizedTitle } : { ...node, children: rec(node.children) }
+          node.id === id
+            ? { ...node, title: sanitizedTitle, ...(tags.length ? { tags: mergeTags(node.tags, tags) } : {}) }
+            : { ...node, children: rec(node.children) }
         );
       return rec(prev);
     });
-    const excess = Math.max(0, rawTitle.length - MAX_TITLE_LENGTH);
+    const excess = Math.max(0, rawTitle.length - limits.maxTitleLength);
     if (excess > 0) triggerLengthWarning(id, excess);
     else if (lengthWarning?.id === id) setLengthWarning(null);
   };
 
   const handleClearAll = () => {
+    if (data.length) showUndoToast('已清空全部');
     setData([]);
     setSelectedId(null);
     setDeleteConfirmId(null);
@@ -659,6 +1319,43 @@ const ProjectSorter: FC = () => {
     setShowClearAllConfirm(false);
   };
 
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = importTree(await file.text(), file.name, limits);
+      setImportError(null);
+      setPendingImport({ ...result, fileName: file.name });
+    } catch (err) {
+      setPendingImport(null);
+      setImportError(err instanceof ImportError ? err.message : '文件读取失败');
+    }
+  };
+
+  const applyImport = (mode: 'append' | 'replace') => {
+    if (!pendingImport) return;
+    const { items } = pendingImport;
+    if (mode === 'replace' && data.length) showUndoToast('已用导入内容替换清单');
+    setData(prev => mergeImported(prev, items, mode));
+    setPendingImport(null);
+    setSelectedId(null);
+    setShowArchive(false);
+  };
+
+  /**
+   * 例行任务完成或删除前记下下一次，返回最早再出现的日期（没有例行任务时为 null）。
+   * 这条记录不随撤销撤回：到期时原节点还在树里就自动作废。
+   */
+  /** rootIds 为这一步移出树的各棵子树的根，里面带重复规则的节点都记下待重复。 */
+  const scheduleRepeats = (rootIds: string[]): number | null => {
+    const added = createPendingRepeats(data, rootIds, activeListId, Date.now());
+    if (!added.length) return null;
+    setPendingRepeats(prev => addPendingRepeats(prev, added));
+    return Math.min(...added.map(entry => entry.at));
+  };
+  const formatRepeatNotice = (at: number | null): string => (at === null ? '' : `，${formatShortDate(at)}再出现`);
+
   const confirmDelete = (id: string) => {
     const targetNode = findNodeById(data, id);
     const ctx = findContextById(data, id);
@@ -701,6 +1398,9 @@ const ProjectSorter: FC = () => {
         spawnCrumbsAtPoint(rect.left + rect.width / 2, rect.top + rect.height / 2);
       }
     });
+    const repeatNotice = formatRepeatNotice(scheduleRepeats([id]));
+    showUndoToast(`已删除「${formatTitle(targetNode.title, false)}」${repeatNotice}`);
+    announce(`${ids.length > 1 ? `已删除「${formatTitle(targetNode.title, false)}」及 ${ids.length - 1} 个子任务` : `已删除「${formatTitle(targetNode.title, false)}」`}${repeatNotice}`);
     setDeleteConfirmId(null);
     setSelectedId(prev => (prev && idsSet.has(prev) ? null : prev));
     if (overlays.length) setSnapOverlays(prev => [...prev, ...overlays]);
@@ -719,123 +1419,789 @@ const ProjectSorter: FC = () => {
     }, SNAP_PREP_MS + SNAP_ANIMATION_MS + 80);
   };
 
-  const stopAutoScroll = useCallback(() => {
-    if (autoScrollFrameRef.current) {
-      cancelAnimationFrame(autoScrollFrameRef.current);
-      autoScrollFrameRef.current = null;
+  const handleComplete = (id: string) => {
+    const result = completeNodeInTree(data, archive, id, Date.now(), activeListId);
+    if (!result) return;
+    const el = headerRefs.current.get(id);
+    if (el) spawnCrumbsFromElement(el, COMPLETE_CRUMB_COLOR);
+    // 最后一个子任务完成时祖先一并归档，按实际移出的那棵子树记重复
+    showUndoToast(`已完成「${formatTitle(result.archive[0].item.title, false)}」${formatRepeatNotice(scheduleRepeats([result.archive[0].item.id]))}`);
+    setData(result.tree);
+    setArchive(result.archive);
+    setDeleteConfirmId(null);
+    setSelectedId(prev => (prev && findContextById(result.tree, prev) ? prev : null));
+  };
+
+  const handleRestoreCompleted = (entryId: string) => {
+    const result = restoreCompletedEntry(data, archive, entryId, limits.maxDepth);
+    if (!result) return;
+    // 归档里的子树可能是在调低上限之前完成的
+    setData(fitTreeToLimits(result.tree, limits.maxDepth, limits.maxTitleLength).items);
+    setArchive(result.archive);
+  };
+
+  const handleRemoveCompleted = (entryId: string) => {
+    setArchive(prev => prev.filter(e => e.item.id !== entryId));
+  };
+
+  // --- 截止日期 / 推迟 ---
+  const handleScheduleRequest = (id: string, anchor: HTMLElement) => {
+    setScheduleTarget(prev => (prev?.id === id ? null : { id, anchor }));
+  };
+
+  const handleSetDue = (id: string, dueAt: number | null) => {
+    setData(prev => updateNodeById(prev, id, node => {
+      const { dueAt: _previous, ...rest } = node;
+      return dueAt === null ? rest : { ...rest, dueAt };
+    }));
+  };
+
+  const handleSetRepeat = (id: string, rule: RepeatRule | null) => {
+    const node = findNodeById(data, id);
+    if (!node || isSameRepeatRule(node.repeat, rule ?? undefined)) return;
+    setData(prev => updateNodeById(prev, id, target => setNodeRepeat(target, rule)));
+    announce(rule ? `「${formatTitle(node.title, false)}」设为${formatRepeatRule(rule)}重复` : `「${formatTitle(node.title, false)}」不再重复`);
+  };
+
+  const handleSnooze = (id: string, until: number | null) => {
+    const node = findNodeById(data, id);
+    if (!node) return;
+    if (until === null) {
+      setData(prev => unsnoozeNodeInTree(prev, id));
+      announce(`「${formatTitle(node.title, false)}」已取消推迟`);
+    } else {
+      setData(prev => snoozeNodeInTree(prev, id, until));
+      announce(`「${formatTitle(node.title, false)}」推迟到 ${formatShortDate(until)}，已移到同级末尾`);
     }
-    autoScrollDirectionRef.current = 0;
-  }, []);
+    setScheduleTarget(null);
+  };
 
-  const ensureAutoScrollLoop = useCallback(() => {
-    if (autoScrollFrameRef.current) return;
-    const step = () => {
-      if (!autoScrollDirectionRef.current || !listRef.current) {
-        stopAutoScroll();
-        return;
-      }
-      listRef.current.scrollBy({ top: autoScrollDirectionRef.current * 4, behavior: 'auto' });
-      autoScrollFrameRef.current = requestAnimationFrame(step);
-    };
-    autoScrollFrameRef.current = requestAnimationFrame(step);
-  }, [stopAutoScroll]);
+  // --- 收录网页 ---
+  useEffect(() => {
+    if (!showMenu || !canCaptureTabs()) return;
+    let cancelled = false;
+    getActiveTabPage()
+      .then(page => { if (!cancelled) setActiveTabPage(page); })
+      .catch(() => { if (!cancelled) setActiveTabPage(null); });
+    return () => { cancelled = true; };
+  }, [showMenu]);
 
-  const updateAutoScrollDirection = useCallback((dir: ScrollDirection) => {
-    if (autoScrollDirectionRef.current === dir) return;
-    autoScrollDirectionRef.current = dir;
-    if (dir === 0) stopAutoScroll();
-    else ensureAutoScrollLoop();
-  }, [ensureAutoScrollLoop, stopAutoScroll]);
+  const handleCaptureTab = () => {
+    if (!activeTabPage) return;
+    const { tree, item, excess } = appendCapturedPage(data, activeTabPage, limits.maxTitleLength);
+    setData(tree);
+    setSelectedId(item.id);
+    if (excess > 0) triggerLengthWarning(item.id, excess);
+    announce(`已加入「${formatTitle(item.title, false)}」`);
+  };
 
-  const DEAD_ZONE_RATIO = 0.8;
+  // --- 备注 ---
+  // 备注编辑器挂在选中项下面，选中别的节点时收起
+  useEffect(() => {
+    setNoteEditId(prev => (prev === selectedId ? prev : null));
+  }, [selectedId]);
 
-  const computeScrollDirection = useCallback((clientY: number): ScrollDirection => {
-    if (!listRef.current) return 0;
-    const rect = listRef.current.getBoundingClientRect();
-    const padding = rect.height * (1 - DEAD_ZONE_RATIO) / 2;
-    const deadZoneTop = rect.top + padding;
-    const deadZoneBottom = rect.bottom - padding;
-    if (clientY >= deadZoneTop && clientY <= deadZoneBottom) return 0;
-    return clientY < deadZoneTop ? -1 : 1;
-  }, []);
+  const handleNoteRequest = (id: string) => {
+    setSelectedId(id);
+    setNoteEditId(id);
+  };
 
-  const handleListDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
-    if (!draggingId || !listRef.current) return;
-    e.preventDefault();
-    updateAutoScrollDirection(computeScrollDirection(e.clientY));
-  }, [draggingId, computeScrollDirection, updateAutoScrollDirection]);
+  const handleSaveNote = (id: string, note: string) => {
+    const next = note.slice(0, MAX_NOTE_LENGTH);
+    setData(prev => updateNodeById(prev, id, node => {
+      const { note: _previous, ...rest } = node;
+      return next.trim() ? { ...rest, note: next } : rest;
+    }));
+    setNoteEditId(null);
+  };
 
-  const handleListDragLeave = useCallback((e: React.DragEvent<HTMLDivElement>) => {
-    if (!listRef.current) return;
-    const related = e.relatedTarget as Node | null;
-    if (!related) return; // 边缘滚动逻辑由全局 dragover 统一处理
-    if (!listRef.current.contains(related)) updateAutoScrollDirection(0);
-  }, [updateAutoScrollDirection]);
+  // --- 标签 ---
+  const handleTagRequest = (id: string, anchor: HTMLElement) => {
+    setTagTarget(prev => (prev?.id === id ? null : { id, anchor }));
+  };
 
-  const handleListDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    updateAutoScrollDirection(0);
-    stopAutoScroll();
-    setDraggingId(null);
-    setSelectedId(null);
-  }, [stopAutoScroll, updateAutoScrollDirection]);
+  const handleSetTags = (id: string, tags: string[]) => {
+    setData(prev => updateNodeById(prev, id, node => setNodeTags(node, mergeTags([], tags))));
+  };
 
-  const handleDragStart = (id: string) => {
-    setDraggingId(id);
-    setSelectedId(null);
+  // 点节点上的标签：只看这个标签；已经在筛选里时把它去掉
+  const handleTagClick = (tag: string) => {
+    setTagFilter(prev => (prev?.includes(tag) ? prev.filter(t => t !== tag) : [tag]));
   };
-  const handleDropOn = (tid: string, pos: InsertPosition) => {
-    if (!draggingId || draggingId === tid) return;
-    setData(prev => {
-      if (!canPlaceNode(prev, draggingId, tid, pos)) return prev;
-      return moveNodeInTree(prev, draggingId, tid, pos) || prev;
+
+  const toggleTagFilter = (tag: string) => {
+    setTagFilter(prev => (prev?.includes(tag) ? prev.filter(t => t !== tag) : [...(prev ?? []), tag]));
+  };
+
+  // --- 多选 ---
+  // 取消选中时多选一并清空；撤销、删除后不存在的节点从多选里剔除
+  useEffect(() => {
+    if (!selectedId) setSelectionIds(prev => (prev.size ? new Set() : prev));
+  }, [selectedId]);
+
+  useEffect(() => {
+    setSelectionIds(prev => {
+      if (!prev.size) return prev;
+      const ids = collectIds(data);
+      const next = new Set(Array.from(prev).filter(id => ids.has(id)));
+      if (next.size === prev.size) return prev;
+      return next.size > 1 ? next : new Set();
     });
-    setDraggingId(null);
+  }, [data]);
+
+  // 以下批量操作都只调用一次 setData，撤销一次即整体复原
+  const handleBulkDelete = () => {
+    if (!selectionRoots.length) return;
+    const ids = new Set(selectionRoots.flatMap(collectSubtreeIds));
+    selectionRoots.forEach(node => {
+      const el = headerRefs.current.get(node.id);
+      if (el) spawnCrumbsFromElement(el);
+    });
+    const extra = ids.size - selectionRoots.length;
+    const repeatNotice = formatRepeatNotice(scheduleRepeats(selectionRoots.map(node => node.id)));
+    showUndoToast(`已删除 ${selectionRoots.length} 项${repeatNotice}`);
+    announce(`${extra > 0 ? `已删除 ${selectionRoots.length} 项及 ${extra} 个子任务` : `已删除 ${selectionRoots.length} 项`}${repeatNotice}`);
+    setData(removeNodesByIds(data, ids));
+    setDeleteConfirmId(null);
     setSelectedId(null);
-    stopAutoScroll();
   };
-  const handlePreviewMove = (tid: string, pos: InsertPosition) => {
-    if (draggingId && draggingId !== tid) {
-      setData(prev => {
-        if (!canPlaceNode(prev, draggingId, tid, pos)) return prev;
-        return moveNodeInTree(prev, draggingId, tid, pos) || prev;
-      });
-    }
+
+  const handleBulkCollapse = () => {
+    const next = collapseNodesInTree(data, selectionIds);
+    if (next === data) return;
+    forceHistoryStepRef.current = true;
+    setData(next);
+    announce('已收起所选任务');
   };
-  const handleDragEnd = useCallback(() => {
-    setDraggingId(null);
-    setSelectedId(null);
-    stopAutoScroll();
-  }, [stopAutoScroll]);
+
+  const handleBulkMoveToTop = () => {
+    const next = moveNodesToRoot(data, selectionIds, 'start');
+    setData(next);
+    announce(`已把 ${selectionRoots.length} 项移到最上面`);
+    listRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  /** parentId 为 null 时移到顶层末尾，否则放进该节点的子任务末尾。 */
+  const handleBulkMoveInto = (parentId: string | null) => {
+    setShowMovePicker(false);
+    const next = parentId ? moveNodesInTree(data, selectionIds, parentId, 'inside') : moveNodesToRoot(data, selectionIds, 'end');
+    if (!next) return;
+    setData(next);
+    const parent = parentId ? findNodeById(next, parentId) : null;
+    announce(`已把 ${selectionRoots.length} 项移到${parent ? `「${formatTitle(parent.title, false)}」下` : '顶层'}`);
+  };
+
+  // --- 剪贴板 ---
+  // 有弹窗或不在任务树视图时不接管复制粘贴
+  const clipboardEnabled = !(hasOpenDialog || showNextAction);
+  // paste 事件里看不出是否按着 Shift，按键时先记下来：Ctrl+Shift+V 粘贴为子任务
+  const pasteAsChildRef = useRef(false);
+
+  /** 复制或剪切选中的子树（多选时为整组），没有可复制的内容时返回 false，交还给浏览器处理。 */
+  const handleCopy = (clipboard: DataTransfer, cut: boolean): boolean => {
+    if (!clipboardEnabled) return false;
+    const selectedNode = selectedId ? findNodeById(data, selectedId) : null;
+    const nodes = isMultiSelect ? selectionRoots : selectedNode ? [selectedNode] : [];
+    if (!nodes.length) return false;
+    writeClipboard(clipboard, nodes);
+    const label = nodes.length > 1 ? `${nodes.length} 项` : `「${formatTitle(nodes[0].title, false)}」`;
+    if (!cut) {
+      announce(`已复制${label}`);
+      return true;
+    }
+    // 剪切 = 复制 + 一次删除，撤销一步即复原
+    showUndoToast(`已剪切${label}`);
+    announce(`已剪切${label}，选中别处后按 Ctrl+V 粘贴`);
+    activityHintRef.current = { cutIds: new Set(nodes.map(node => node.id)) };
+    setData(removeNodesByIds(data, new Set(nodes.flatMap(collectSubtreeIds))));
+    setDeleteConfirmId(null);
+    setSelectedId(null);
+    return true;
+  };
+
+  /** 粘贴到选中项之后（asChild 时放进它的子任务末尾）；没有选中时接在顶层末尾。 */
+  const handlePaste = (clipboard: DataTransfer, asChild: boolean): boolean => {
+    if (!clipboardEnabled) return false;
+    const anchor = selectedId ? findContextByIdWithDepth(data, selectedId) : null;
+    let parentId: string | null = null;
+    let index = data.length;
+    let depth = 0;
+    if (anchor && asChild) {
+      parentId = anchor.node.id;
+      index = anchor.node.children.length;
+      depth = anchor.depth + 1;
+    } else if (anchor) {
+      parentId = anchor.parent?.id ?? null;
+      index = anchor.index + 1;
+      depth = anchor.depth;
+    }
+    if (depth >= limits.maxDepth) {
+      announce(formatDepthLimitMessage(limits.maxDepth));
+      return true;
+    }
+    const pasted = readClipboard(clipboard, data, limits.maxDepth - depth, limits.maxTitleLength);
+    if (!pasted) return false;
+    const { items, sourceIds } = pasted;
+    activityHintRef.current = { sourceIds };
+    setData(insertNodesAt(data, parentId, index, items));
+    // 粘贴了多项时整组选中，方便接着拖动或批量处理
+    selectionAnchorRef.current = items[0].id;
+    setSelectionIds(items.length > 1 ? new Set(items.map(item => item.id)) : new Set());
+    setSelectedId(items[items.length - 1].id);
+    const notes = [
+      pasted.flattened > 0 ? `${pasted.flattened} 项超过 ${limits.maxDepth} 层已上移` : '',
+      pasted.truncated > 0 ? `${pasted.truncated} 个标题已截断` : ''
+    ].filter(Boolean);
+    announce(`已粘贴 ${items.length} 项${notes.length ? `，${notes.join('，')}` : ''}`);
+    return true;
+  };
+
+  const clipboardHandlersRef = useRef({ copy: handleCopy, paste: handlePaste });
+  clipboardHandlersRef.current = { copy: handleCopy, paste: handlePaste };
 
   useEffect(() => {
-    if (!draggingId) return;
-    const handleWindowDragOver = (event: DragEvent) => {
-      if (!listRef.current) return;
-      event.preventDefault();
-      updateAutoScrollDirection(computeScrollDirection(event.clientY));
+    const isEditable = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'v') pasteAsChildRef.current = event.shiftKey;
+    };
+    const handleCopyEvent = (event: ClipboardEvent) => {
+      // 输入框里、或备注里选中了文字时保持浏览器原本的复制
+      if (!event.clipboardData || isEditable(event.target) || !window.getSelection()?.isCollapsed) return;
+      if (clipboardHandlersRef.current.copy(event.clipboardData, event.type === 'cut')) event.preventDefault();
+    };
+    const handlePasteEvent = (event: ClipboardEvent) => {
+      const asChild = pasteAsChildRef.current;
+      pasteAsChildRef.current = false;
+      if (!event.clipboardData || isEditable(event.target)) return;
+      if (clipboardHandlersRef.current.paste(event.clipboardData, asChild)) event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    window.addEventListener('copy', handleCopyEvent);
+    window.addEventListener('cut', handleCopyEvent);
+    window.addEventListener('paste', handlePasteEvent);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.removeEventListener('copy', handleCopyEvent);
+      window.removeEventListener('cut', handleCopyEvent);
+      window.removeEventListener('paste', handlePasteEvent);
+    };
+  }, []);
+
+  // --- 模板 ---
+  const openSaveTemplate = () => {
+    const selectedNode = selectedId ? findNodeById(data, selectedId) : null;
+    const nodes = isMultiSelect ? selectionRoots : selectedNode ? [selectedNode] : [];
+    if (nodes.length) setTemplateSource(nodes);
+  };
+
+  const handleSaveTemplate = (name: string) => {
+    if (!templateSource) return;
+    const used = new Set([...BUILTIN_TEMPLATES, ...templates].map(template => template.id));
+    const template = createTemplate(`custom-${generateUniqueId(used)}`, name, templateSource);
+    setTemplates(prev => [...prev, template]);
+    setTemplateSource(null);
+    announce(`已存为模板「${template.name}」`);
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    if (isBuiltinTemplate(id)) return;
+    setTemplates(prev => prev.filter(template => template.id !== id));
+  };
+
+  /** 套用到 parentId 的子任务末尾（null 为顶层末尾），一次 setData，撤销一步即可整体去掉。 */
+  const handleApplyTemplate = (template: TaskTemplate, parentId: string | null) => {
+    const parent = parentId ? findContextByIdWithDepth(data, parentId) : null;
+    const depth = parent ? parent.depth + 1 : 0;
+    if (depth >= limits.maxDepth) {
+      announce(formatDepthLimitMessage(limits.maxDepth));
+      return;
+    }
+    const created = instantiateTemplate(template, Date.now(), collectIds(data));
+    const { items } = fitTreeToLimits(created, limits.maxDepth - depth, limits.maxTitleLength);
+    if (!items.length) return;
+    setData(insertNodesAt(data, parent ? parent.node.id : null, parent ? parent.node.children.length : data.length, items));
+    setShowTemplates(false);
+    setShowArchive(false);
+    setShowNextAction(false);
+    setSearchQuery(null);
+    setTagFilter(null);
+    selectionAnchorRef.current = items[0].id;
+    setSelectionIds(items.length > 1 ? new Set(items.map(item => item.id)) : new Set());
+    setSelectedId(items[items.length - 1].id);
+    announce(`已套用「${template.name}」，新建 ${countTemplateItems(items)} 项`);
+  };
+
+  // --- 多清单 ---
+  const updateActiveView = (patch: Partial<ListViewSettings>) => {
+    const view = { ...activeList.view, ...patch };
+    setLists(prev => ({ ...prev, lists: prev.lists.map(list => (list.id === prev.activeId ? { ...list, view } : list)) }));
+    // 新建清单沿用最近一次的视图设置
+    setSettings(prev => ({ ...prev, ...view }));
+  };
+
+  // --- 搜索 ---
+  const openSearch = () => {
+    setSearchQuery(prev => prev ?? '');
+    setShowArchive(false);
+    setShowNextAction(false);
+    setKeyboardMoveMode(false);
+  };
+  const openSearchRef = useRef(openSearch);
+  openSearchRef.current = openSearch;
+
+  // 输入时选中第一个结果；已选中的仍在结果里就不动
+  useEffect(() => {
+    if (!searchResult) return;
+    setSelectedId(prev => (prev && searchResult.matches.has(prev) ? prev : searchResult.order[0] ?? null));
+  }, [searchResult]);
+
+  const stepSearchResult = (offset: 1 | -1) => {
+    const order = searchResult?.order ?? [];
+    if (!order.length) return;
+    const current = selectedId ? order.indexOf(selectedId) : -1;
+    const next = current === -1 ? 0 : (current + offset + order.length) % order.length;
+    setSelectedId(order[next]);
+    announce(`第 ${next + 1} 个结果，共 ${order.length} 个`);
+  };
+
+  /** jump 为 true 时保留选中的结果，并把它的祖先真正展开；否则放弃选择。 */
+  const closeSearch = (jump: boolean) => {
+    const target = jump && selectedId && searchResult?.matches.has(selectedId) ? selectedId : null;
+    setSearchQuery(null);
+    if (!target) {
+      setSelectedId(null);
+      return;
+    }
+    setData(prev => {
+      const { tree, changed } = ensureNodeOpenById(prev, target);
+      return changed ? tree : prev;
+    });
+    // 输入框卸载后焦点回到树上，交给焦点跟随选中项
+    requestAnimationFrame(() => liRefs.current.get(target)?.focus({ preventScroll: true }));
+  };
+
+  // --- 眼前一件事 ---
+  // 推迟中的任务不算眼前的事；下标越界时回到第一件
+  const leafPaths = useMemo(
+    () => (showNextAction ? getLeafPaths(data, node => isSnoozed(node, now)) : []),
+    [showNextAction, data, now]
+  );
+  const currentNextActionIndex = nextActionIndex < leafPaths.length ? nextActionIndex : 0;
+  const currentNextAction = leafPaths[currentNextActionIndex] ?? null;
+
+  const toggleNextAction = () => {
+    setShowNextAction(prev => !prev);
+    setNextActionIndex(0);
+    setShowArchive(false);
+    setSelectedId(null);
+    setDeleteConfirmId(null);
+    setKeyboardMoveMode(false);
+  };
+  const toggleNextActionRef = useRef(toggleNextAction);
+  toggleNextActionRef.current = toggleNextAction;
+
+  // 完成后原下标上就是下一件事（可能是刚变成叶子的父项），下标不动
+  const handleFinishNextAction = () => {
+    if (currentNextAction) handleComplete(currentNextAction.node.id);
+    setNextActionIndex(currentNextActionIndex);
+  };
+
+  const handleSkipNextAction = () => {
+    if (!currentNextAction) return;
+    const { id } = currentNextAction.node;
+    const tree = moveNodeToSiblingEnd(data, id);
+    setData(tree);
+    // 已经在同级末尾时轮转不改变顺序，直接看下一件
+    const after = getLeafPaths(tree, node => isSnoozed(node, now));
+    const stayed = after[currentNextActionIndex]?.node.id === id;
+    setNextActionIndex(stayed ? (currentNextActionIndex + 1) % after.length : currentNextActionIndex);
+  };
+
+  const handleDeferNextAction = () => {
+    if (leafPaths.length) setNextActionIndex((currentNextActionIndex + 1) % leafPaths.length);
+  };
+
+  // --- 专注方案 ---
+  const handleCreateProfile = () => {
+    const used = new Set([...BUILTIN_FOCUS_PROFILES, ...settings.profiles].map(profile => profile.id));
+    const profile: FocusProfile = {
+      ...focusProfile,
+      id: `custom-${generateUniqueId(used)}`,
+      name: `${focusProfile.name.slice(0, MAX_PROFILE_NAME_LENGTH - 3)} 副本`,
+      curve: [...focusProfile.curve]
     };
-    const handleWindowDrop = (event: DragEvent) => {
-      const targetNode = event.target as Node | null;
-      const insideList = !!(targetNode && listRef.current?.contains(targetNode));
-      if (!insideList) {
-        setSelectedId(null);
-        setDraggingId(null);
-        updateAutoScrollDirection(0);
+    setSettings(prev => ({ ...prev, profiles: [...prev.profiles, profile] }));
+    updateActiveView({ enableOpacity: true, profileId: profile.id });
+  };
+
+  const handleUpdateProfile = (id: string, patch: Partial<Omit<FocusProfile, 'id'>>) => {
+    setSettings(prev => ({
+      ...prev,
+      profiles: prev.profiles.map(profile => (profile.id === id ? { ...profile, ...patch } : profile))
+    }));
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    // 用到这个方案的清单一并退回默认方案
+    setLists(prev => ({
+      ...prev,
+      lists: prev.lists.map(list => (list.view.profileId === id ? { ...list, view: { ...list.view, profileId: DEFAULT_FOCUS_PROFILE_ID } } : list))
+    }));
+    setSettings(prev => ({
+      ...prev,
+      profileId: prev.profileId === id ? DEFAULT_FOCUS_PROFILE_ID : prev.profileId,
+      profiles: prev.profiles.filter(profile => profile.id !== id)
+    }));
+  };
+
+  // --- 层级与字数上限 ---
+  // 打开面板时读好所有清单，调低上限时按清单预览需要整理的数量
+  const openLimitsSettings = async () => {
+    listCacheRef.current.set(activeListId, data);
+    const trees = await Promise.all(lists.lists.map(list => loadListTree(list.id)));
+    setLimitsLists(lists.lists.map((list, i) => ({ id: list.id, name: list.name, tree: trees[i] })));
+  };
+
+  // 先把所有清单整理到新上限内再保存设置，不留下超限的数据；涉及多份数据，撤销记录从这里重新开始
+  const handleApplyLimits = (next: TreeLimits) => {
+    let changed = 0;
+    limitsLists?.forEach(list => {
+      const fitted = fitTreeToLimits(list.id === activeListId ? data : list.tree, next.maxDepth, next.maxTitleLength);
+      if (!fitted.truncated && !fitted.flattened) return;
+      changed += fitted.truncated + fitted.flattened;
+      if (list.id === activeListId) {
+        resetHistory();
+        setData(fitted.items);
+      } else {
+        listCacheRef.current.set(list.id, fitted.items);
+        persist(listTreeSchema(list.id), fitted.items);
+      }
+    });
+    setSettings(prev => ({ ...prev, limits: next }));
+    setLimitsLists(null);
+    announce(changed ? `已按新上限整理 ${changed} 处` : `上限已改为 ${next.maxDepth} 层、${next.maxTitleLength} 字`);
+  };
+
+  const handleSwitchList = async (listId: string) => {
+    setShowListSwitcher(false);
+    if (listId === activeListId) return;
+    listCacheRef.current.set(activeListId, data);
+    const tree = await loadListTree(listId);
+    showList(listId, tree);
+  };
+
+  const handleCreateList = (name: string) => {
+    const list: TaskList = { id: generateId(), name, view: { enableOpacity: settings.enableOpacity, profileId: settings.profileId } };
+    listCacheRef.current.set(activeListId, data);
+    setLists(prev => ({ ...prev, lists: [...prev.lists, list] }));
+    showList(list.id, []);
+    setShowListSwitcher(false);
+  };
+
+  const handleRenameList = (listId: string, name: string) => {
+    setLists(prev => ({ ...prev, lists: prev.lists.map(list => (list.id === listId ? { ...list, name } : list)) }));
+  };
+
+  const handleDeleteList = async (listId: string) => {
+    const remaining = lists.lists.filter(list => list.id !== listId);
+    if (!remaining.length) return;
+    const schema = listTreeSchema(listId);
+    if (listId === activeListId) {
+      // 先读好下一个清单，再在同一次渲染里换掉 data 与 activeId
+      const tree = await loadListTree(remaining[0].id);
+      showList(remaining[0].id, tree);
+    } else {
+      // 删除清单不可撤销，撤销记录里可能还引用着它的归档
+      resetHistory();
+    }
+    setLists(prev => ({ ...prev, lists: prev.lists.filter(list => list.id !== listId) }));
+    setArchive(prev => prev.filter(entry => entry.listId !== listId));
+    setPendingRepeats(prev => prev.filter(entry => entry.listId !== listId));
+    setActivity(prev => prev.filter(entry => entry.listId !== listId));
+    listCacheRef.current.delete(listId);
+    persistedJsonRef.current.delete(schema.key);
+    storage.remove(schema.key).catch(e => console.warn(`[storage] 删除 ${schema.key} 失败`, e));
+  };
+
+  // 把子树整体移到另一个清单的末尾；涉及两份数据，撤销记录从这里重新开始
+  const handleMoveToList = async (nodeId: string, listId: string) => {
+    const node = findNodeById(data, nodeId);
+    if (!node || listId === activeListId) return;
+    const target = await loadListTree(listId);
+    const nextTarget = normalizeTreeIds([...target, node]).tree;
+    listCacheRef.current.set(listId, nextTarget);
+    persist(listTreeSchema(listId), nextTarget);
+    resetHistory();
+    // 跨清单的移动不经过撤销历史，操作记录在这里单独补上
+    const targetName = lists.lists.find(list => list.id === listId)?.name ?? '';
+    setActivity(prev => appendActivity(prev, [{
+      kind: 'move',
+      at: Date.now(),
+      listId: activeListId,
+      itemId: node.id,
+      title: node.title.trim(),
+      to: `清单「${targetName}」`
+    }]));
+    setData(prev => removeNodesByIds(prev, new Set(collectSubtreeIds(node))));
+    setSelectedId(null);
+    setShowListSwitcher(false);
+  };
+
+  const stopAutoScroll = useCallback(() => {
+    if (autoScrollFrameRef.current) {
+      cancelAnimationFrame(autoScrollFrameRef.current);
+      autoScrollFrameRef.current = null;
+    }
+    autoScrollDirectionRef.current = 0;
+  }, []);
+
+  const ensureAutoScrollLoop = useCallback(() => {
+    if (autoScrollFrameRef.current) return;
+    const step = () => {
+      if (!autoScrollDirectionRef.current || !listRef.current) {
         stopAutoScroll();
+        return;
+      }
+      listRef.current.scrollBy({ top: autoScrollDirectionRef.current * 4, behavior: 'auto' });
+      autoScrollFrameRef.current = requestAnimationFrame(step);
+    };
+    autoScrollFrameRef.current = requestAnimationFrame(step);
+  }, [stopAutoScroll]);
+
+  const updateAutoScrollDirection = useCallback((dir: ScrollDirection) => {
+    if (autoScrollDirectionRef.current === dir) return;
+    autoScrollDirectionRef.current = dir;
+    if (dir === 0) stopAutoScroll();
+    else ensureAutoScrollLoop();
+  }, [ensureAutoScrollLoop, stopAutoScroll]);
+
+  const DEAD_ZONE_RATIO = 0.8;
+
+  const computeScrollDirection = useCallback((clientY: number): ScrollDirection => {
+    if (!listRef.current) return 0;
+    const rect = listRef.current.getBoundingClientRect();
+    const padding = rect.height * (1 - DEAD_ZONE_RATIO) / 2;
+    const deadZoneTop = rect.top + padding;
+    const deadZoneBottom = rect.bottom - padding;
+    if (clientY >= deadZoneTop && clientY <= deadZoneBottom) return 0;
+    return clientY < deadZoneTop ? -1 : 1;
+  }, []);
+
+  // 拖拽过程中只记录落点，松手时才改动一次数据；取消或拖到清单外都不留痕迹
+  /** 放下后保留选中与多选，接着对同一组做批量操作；取消拖动时才清掉。 */
+  const finishDrag = useCallback((cancelled: boolean) => {
+    if (pressRef.current?.timer) clearTimeout(pressRef.current.timer);
+    if (nestTimerRef.current) clearTimeout(nestTimerRef.current);
+    pressRef.current = null;
+    nestHoverRef.current = null;
+    setDraggingId(null);
+    setDropTarget(null);
+    if (cancelled) {
+      setSelectedId(null);
+      setSelectionIds(new Set());
+    }
+    updateAutoScrollDirection(0);
+    stopAutoScroll();
+  }, [stopAutoScroll, updateAutoScrollDirection]);
+
+  const moveDragGhost = useCallback((x: number, y: number) => {
+    dragPointRef.current = { x, y };
+    if (dragGhostRef.current) dragGhostRef.current.style.transform = getGhostTransform(dragPointRef.current);
+  }, []);
+
+  const handleDragStart = (id: string, x: number, y: number) => {
+    lastRejectedDropRef.current = null;
+    dragPointRef.current = { x, y };
+    setDropTarget(null);
+    setDraggingId(id);
+    // 拿起多选中的一项时保留整组，否则回到单独拖这一个
+    if (!(isMultiSelect && selectionIds.has(id))) setSelectedId(null);
+  };
+  const handlePreviewMove = (tid: string, pos: InsertPosition) => {
+    if (!draggingId) return;
+    const dragged = getSelectionRoots(data, draggedIds);
+    // 拖到自己或自己的子孙上不是合法落点，不画插入线
+    if (!dragged.length || dragged.some(node => containsId(node, tid))) {
+      setDropTarget(null);
+      return;
+    }
+    const rejected = !canPlaceNodes(data, draggedIds, tid, pos, limits.maxDepth);
+    const rejectKey = `${tid}-${pos}`;
+    if (rejected && lastRejectedDropRef.current !== rejectKey) announce(formatDepthLimitMessage(limits.maxDepth));
+    lastRejectedDropRef.current = rejected ? rejectKey : null;
+    setDropTarget(prev => (prev?.id === tid && prev.position === pos && prev.rejected === rejected ? prev : { id: tid, position: pos, rejected }));
+  };
+  // 落点以界面上画出的插入线为准，松在节点之间的空隙里也一样
+  const commitDrop = () => {
+    if (draggingId && dropTarget && !dropTarget.rejected) {
+      const next = moveNodesInTree(data, draggedIds, dropTarget.id, dropTarget.position);
+      if (next) {
+        setData(next);
+        if (draggedIds.size > 1) announce(`已移动 ${getSelectionRoots(next, draggedIds).length} 项`);
+        else announcePosition(next, draggingId);
+      }
+    }
+    finishDrag(false);
+  };
+
+  // 按指针位置找落点：只认节点这一行本身，指在节点之间的空隙或展开的子列表边上时保持原来的插入线
+  const updateDragTarget = (x: number, y: number) => {
+    const hit = document.elementFromPoint(x, y);
+    if (!hit || !listRef.current?.contains(hit)) {
+      nestHoverRef.current = null;
+      setDropTarget(null);
+      return;
+    }
+    const id = hit.closest<HTMLElement>('[data-node-id]')?.dataset.nodeId;
+    const rect = id ? headerRefs.current.get(id)?.getBoundingClientRect() : null;
+    if (!id || !rect || y < rect.top || y > rect.bottom) return;
+    const zone = getDropZone(rect, y);
+    if (zone !== 'center') {
+      nestHoverRef.current = null;
+      handlePreviewMove(id, zone);
+      return;
+    }
+    if (nestHoverRef.current?.id !== id) {
+      nestHoverRef.current = { id, since: Date.now() };
+      // 指针停着不动也要在满时长后变成「放入」
+      if (nestTimerRef.current) clearTimeout(nestTimerRef.current);
+      nestTimerRef.current = setTimeout(() => {
+        updateDragTargetRef.current(dragPointRef.current.x, dragPointRef.current.y);
+      }, NEST_HOVER_MS);
+    }
+    const nested = Date.now() - nestHoverRef.current.since >= NEST_HOVER_MS;
+    handlePreviewMove(id, nested ? 'inside' : y < rect.top + rect.height / 2 ? 'before' : 'after');
+  };
+  const updateDragTargetRef = useRef(updateDragTarget);
+  updateDragTargetRef.current = updateDragTarget;
+
+  // 鼠标按下后拖动一小段即拿起；触屏和手写笔要长按，按住期间先移动视为滚动
+  const handleDragPointerDown = (id: string, e: React.PointerEvent<HTMLElement>) => {
+    if (pressRef.current || draggingId || !e.isPrimary || e.button !== 0) return;
+    if ((e.target as HTMLElement).closest('button, textarea, input, a')) return;
+    const press: PointerPress = {
+      id,
+      pointerId: e.pointerId,
+      pointerType: e.pointerType,
+      startX: e.clientX,
+      startY: e.clientY,
+      timer: null,
+      dragging: false
+    };
+    if (e.pointerType !== 'mouse') {
+      press.timer = setTimeout(() => {
+        if (pressRef.current !== press) return;
+        press.timer = null;
+        pickUpRef.current(press, press.startX, press.startY);
+        navigator.vibrate?.(10);
+      }, LONG_PRESS_MS);
+    }
+    pressRef.current = press;
+  };
+
+  const pickUp = (press: PointerPress, x: number, y: number) => {
+    press.dragging = true;
+    handleDragStart(press.id, x, y);
+  };
+  const pickUpRef = useRef(pickUp);
+  pickUpRef.current = pickUp;
+
+  const handlePointerMove = (e: PointerEvent) => {
+    const press = pressRef.current;
+    if (!press || e.pointerId !== press.pointerId) return;
+    if (!press.dragging) {
+      if (Math.hypot(e.clientX - press.startX, e.clientY - press.startY) <= PRESS_MOVE_TOLERANCE) return;
+      if (press.pointerType === 'mouse') {
+        pickUp(press, e.clientX, e.clientY);
+      } else {
+        if (press.timer) clearTimeout(press.timer);
+        pressRef.current = null;
       }
+      return;
+    }
+    moveDragGhost(e.clientX, e.clientY);
+    updateAutoScrollDirection(computeScrollDirection(e.clientY));
+    updateDragTarget(e.clientX, e.clientY);
+  };
+
+  const handlePointerUp = (e: PointerEvent, cancelled: boolean) => {
+    const press = pressRef.current;
+    if (!press || e.pointerId !== press.pointerId) return;
+    if (!press.dragging) {
+      if (press.timer) clearTimeout(press.timer);
+      pressRef.current = null;
+      return;
+    }
+    // 松手后浏览器还会补发一次 click，吞掉它免得误选中或取消选中
+    suppressClickRef.current = true;
+    setTimeout(() => { suppressClickRef.current = false; }, 0);
+    if (cancelled) finishDrag(true);
+    else commitDrop();
+  };
+  const pointerHandlersRef = useRef({ move: handlePointerMove, up: handlePointerUp });
+  pointerHandlersRef.current = { move: handlePointerMove, up: handlePointerUp };
+
+  useEffect(() => {
+    const handleMove = (event: PointerEvent) => pointerHandlersRef.current.move(event);
+    const handleUp = (event: PointerEvent) => pointerHandlersRef.current.up(event, false);
+    const handleCancel = (event: PointerEvent) => pointerHandlersRef.current.up(event, true);
+    // 长按期间不弹出系统菜单
+    const handleContextMenu = (event: Event) => { if (pressRef.current) event.preventDefault(); };
+    const handleClick = (event: MouseEvent) => {
+      if (!suppressClickRef.current) return;
+      suppressClickRef.current = false;
+      event.preventDefault();
+      event.stopPropagation();
+    };
+    // 拿起之后阻止触屏滚动页面，改由边缘自动滚动
+    const handleTouchMove = (event: TouchEvent) => { if (pressRef.current?.dragging) event.preventDefault(); };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleCancel);
+    window.addEventListener('contextmenu', handleContextMenu);
+    window.addEventListener('click', handleClick, true);
+    window.addEventListener('touchmove', handleTouchMove, { passive: false });
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleCancel);
+      window.removeEventListener('contextmenu', handleContextMenu);
+      window.removeEventListener('click', handleClick, true);
+      window.removeEventListener('touchmove', handleTouchMove);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!draggingId) return;
+    const handleWindowKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      event.preventDefault();
+      event.stopPropagation();
+      finishDrag(true);
+      announce('已取消拖动');
     };
-    window.addEventListener('dragover', handleWindowDragOver);
-    window.addEventListener('drop', handleWindowDrop);
-    window.addEventListener('dragend', handleWindowDrop);
+    // 自动滚动时指针没动，但指针下面的节点变了
+    const handleListScroll = () => updateDragTargetRef.current(dragPointRef.current.x, dragPointRef.current.y);
+    const list = listRef.current;
+    // 捕获阶段先于全局快捷键处理 Escape，免得顺带取消选中或关闭视图
+    window.addEventListener('keydown', handleWindowKeyDown, true);
+    list?.addEventListener('scroll', handleListScroll);
     return () => {
-      window.removeEventListener('dragover', handleWindowDragOver);
-      window.removeEventListener('drop', handleWindowDrop);
-      window.removeEventListener('dragend', handleWindowDrop);
+      window.removeEventListener('keydown', handleWindowKeyDown, true);
+      list?.removeEventListener('scroll', handleListScroll);
       updateAutoScrollDirection(0);
       stopAutoScroll();
     };
-  }, [draggingId, updateAutoScrollDirection, stopAutoScroll, computeScrollDirection]);
+  }, [draggingId, updateAutoScrollDirection, stopAutoScroll, finishDrag, announce]);
+
+  useEffect(() => {
+    if (!draggingId) return;
+    // 节点上各自设了 cursor，只能用全局类名整体覆盖
+    const className = dropTarget?.rejected ? 'drop-rejected' : 'dragging';
+    document.body.classList.add(className);
+    return () => document.body.classList.remove(className);
+  }, [draggingId, dropTarget?.rejected]);
 
   useEffect(() => {
     if (!draggingId) return;
@@ -864,110 +2230,204 @@ const ProjectSorter: FC = () => {
           className="flex-shrink-0 flex justify-between items-center px-3"
           style={{ height: '50px', marginTop: '8px', marginBottom: '8px'}}
         >
-            {/* 左上角图标 */}
+            {/* 左上角图标：兼作清单切换器 */}
             <div className="flex items-center" style={{ marginLeft: '12px' }}>
-                <img 
-                    src="/icons.png" 
-                    alt="Plan P" 
-                    className="w-8 h-8 rounded-lg shadow-sm"
-                    style={{ objectFit: 'contain' }}
+                <ListSwitcher
+                    open={showListSwitcher}
+                    lists={lists.lists}
+                    activeId={activeListId}
+                    selectedTitle={selectedId ? findNodeById(data, selectedId)?.title ?? null : null}
+                    onToggle={() => setShowListSwitcher(prev => !prev)}
+                    onSwitch={handleSwitchList}
+                    onCreate={handleCreateList}
+                    onRename={handleRenameList}
+                    onDelete={handleDeleteList}
+                    onMoveSelected={listId => { if (selectedId) void handleMoveToList(selectedId, listId); }}
                 />
             </div>
 
             {/* 右侧工具栏 */}
-            <div className="flex items-center gap-1.5 p-1 bg-white/70 backdrop-blur-xl rounded-full border border-white/50 shadow-sm shadow-slate-200/40 hover:bg-white/80 transition-all">
+            {searchQuery !== null ? (
+                <SearchBar
+                    query={searchQuery}
+                    resultIds={searchResult?.order ?? []}
+                    selectedId={selectedId}
+                    onChange={setSearchQuery}
+                    onStep={stepSearchResult}
+                    onClose={closeSearch}
+                />
+            ) : (
+              <div className="flex items-center gap-1.5 p-1 bg-white/70 backdrop-blur-xl rounded-full border border-white/50 shadow-sm shadow-slate-200/40 hover:bg-white/80 transition-all">
                 
-                {/* 视图控制组合 */}
-                <div className="flex items-center bg-slate-100/60 rounded-full p-0.5 border border-slate-200/50">
-                    <button
-                        onClick={() => setEnableOpacity(!enableOpacity)}
-                        className={`w-6 h-6 rounded-full flex items-center justify-center transition-all ${enableOpacity ? 'bg-white text-[#5B8DEF] shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
-                        title={enableOpacity ? "关闭透明度" : "开启透明度"}
-                    >
-                        {enableOpacity ? <Eye size={14} /> : <EyeOff size={14} />}
-                    </button>
+                  {/* 视图控制组合 */}
+                  <div className="flex items-center bg-slate-100/60 rounded-full p-0.5 border border-slate-200/50">
+                      <button
+                          onClick={() => updateActiveView({ enableOpacity: !enableOpacity })}
+                          className={`w-6 h-6 rounded-full flex items-center justify-center transition-all ${enableOpacity ? 'bg-white text-[#5B8DEF] shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                          title={enableOpacity ? `关闭专注（当前：${focusProfile.name}）` : "开启专注"}
+                      >
+                          {enableOpacity ? <Eye size={14} /> : <EyeOff size={14} />}
+                      </button>
                     
-                    <div className={`flex items-center overflow-hidden transition-all duration-300 ease-in-out ${enableOpacity ? 'w-[70px] opacity-100 ml-0.5' : 'w-0 opacity-0'}`}>
-                         <div className="flex items-center gap-0.5 border-l border-slate-200/50 pl-0.5">
-                            {[1, 2, 3].map((mode) => (
-                                <button
-                                    key={mode}
-                                    onClick={() => setOpacityMode(mode as OpacityMode)}
-                                    className={`w-5 h-5 rounded-full text-[10px] font-bold transition-all flex items-center justify-center ${opacityMode === mode ? 'bg-[#5B8DEF] text-white shadow-sm' : 'text-slate-400 hover:text-slate-600 hover:bg-white/50'}`}
-                                >
-                                    {mode}
-                                </button>
-                            ))}
-                         </div>
-                    </div>
-                </div>
-                <button
-                    onClick={handleToggleAllNodes}
-                    disabled={!data.length}
-                    style={{ width: '28.571px', height: '28.571px' }}
-                    className={`ml-1 rounded-full flex items-center justify-center transition-all group ${data.length ? 'bg-slate-100 text-[#94A3B8] hover:text-black' : 'text-slate-300 cursor-not-allowed bg-slate-100/80'}`}
-                    title={treeOpenState === 'all-open' ? '全部收起' : treeOpenState === 'all-closed' ? '全部展开' : '全部展开'}
-                >
-                    <TreeStateIcon state={treeOpenState} />
-                </button>
+                      <div className={`flex items-center overflow-hidden transition-all duration-300 ease-in-out ${enableOpacity ? 'w-[70px] opacity-100 ml-0.5' : 'w-0 opacity-0'}`}>
+                           <div className="flex items-center gap-0.5 border-l border-slate-200/50 pl-0.5">
+                              {[1, 2, 3].map((mode) => (
+                                  <button
+                                      key={mode}
+                                      onClick={() => updateActiveView({ profileId: `mode-${mode}` })}
+                                      aria-label={`专注档位 ${mode}`}
+                                      aria-pressed={profileId === `mode-${mode}`}
+                                      className={`w-5 h-5 rounded-full text-[10px] font-bold transition-all flex items-center justify-center ${profileId === `mode-${mode}` ? 'bg-[#5B8DEF] text-white shadow-sm' : 'text-slate-400 hover:text-slate-600 hover:bg-white/50'}`}
+                                  >
+                                      {mode}
+                                  </button>
+                              ))}
+                           </div>
+                      </div>
+                  </div>
+                  <button
+                      onClick={handleToggleAllNodes}
+                      disabled={!data.length}
+                      style={{ width: '28.571px', height: '28.571px' }}
+                      className={`ml-1 rounded-full flex items-center justify-center transition-all group ${data.length ? 'bg-slate-100 text-[#94A3B8] hover:text-black' : 'text-slate-300 cursor-not-allowed bg-slate-100/80'}`}
+                      title={treeOpenState === 'all-open' ? '全部收起' : treeOpenState === 'all-closed' ? '全部展开' : '全部展开'}
+                  >
+                      <TreeStateIcon state={treeOpenState} />
+                  </button>
+                  <button
+                      onClick={() => setShowArchive(prev => !prev)}
+                      className={`relative w-7 h-7 rounded-full flex items-center justify-center transition-all ${showArchive ? 'bg-[#5B8DEF] text-white shadow-sm' : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'}`}
+                      title={showArchive ? '返回清单' : '已完成'}
+                  >
+                      <Archive size={14} />
+                      {listArchive.length > 0 && !showArchive && (
+                        <span className="absolute -top-0.5 -right-0.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-emerald-400 text-white text-[9px] font-bold leading-[14px] text-center">
+                          {listArchive.length > 99 ? '99+' : listArchive.length}
+                        </span>
+                      )}
+                  </button>
 
-                <div className="w-px h-3 bg-slate-300/50 ml-2 mr-0.5" />
+                  <div className="w-px h-3 bg-slate-300/50 ml-2 mr-0.5" />
 
-                {/* 主操作按钮 */}
-                <div className="flex items-center gap-1">
-                    {data.length > 0 && (
-                        <button 
-                            onClick={() => setShowClearAllConfirm(true)}
-                            className="w-7 h-7 flex items-center justify-center rounded-full text-slate-400 hover:text-red-500 hover:bg-red-50 transition-colors"
-                            title="清空全部"
-                        >
-                            <Trash2 size={14} />
-                        </button>
-                    )}
-                    <button 
-                        onClick={() => handleAdd(null, -1)}
-                        className="w-10 h-10 flex items-center justify-center bg-slate-800 hover:bg-slate-900 text-white rounded-full shadow-md hover:shadow-lg hover:-translate-y-0.5 transition-all active:scale-95"
-                        title="新建项目"
-                    >
-                        <Plus size={16} />
-                    </button>
-                </div>
-            </div>
+                  {/* 主操作按钮 */}
+                  <div className="flex items-center gap-1">
+                      <ToolbarMenu
+                          open={showMenu}
+                          onToggle={() => setShowMenu(prev => !prev)}
+                          onClose={() => setShowMenu(false)}
+                          items={[
+                              { key: 'capture-tab', label: '加入当前标签页', icon: <Globe size={13} />, onSelect: handleCaptureTab, disabled: !activeTabPage },
+                            { key: 'search', label: '搜索…', dividerBefore: true, icon: <Search size={13} />, onSelect: openSearch },
+                              { key: 'tag-filter', label: '按标签筛选', icon: <Tag size={13} />, onSelect: () => setTagFilter(prev => prev ?? []) },
+                            { key: 'next-action', label: showNextAction ? '返回完整清单' : '只看眼前一件事', icon: <Crosshair size={13} />, onSelect: toggleNextAction },
+                              { key: 'activity', label: '回顾与统计', icon: <ChartColumn size={13} />, onSelect: () => setShowActivity(true) },
+                              { key: 'templates', dividerBefore: true, label: '从模板新建…', icon: <LayoutTemplate size={13} />, onSelect: () => setShowTemplates(true) },
+                              { key: 'save-template', label: '选中项存为模板…', icon: <BookmarkPlus size={13} />, onSelect: openSaveTemplate, disabled: !selectedId || showArchive || showNextAction },
+                              { key: 'export-json', dividerBefore: true, label: '导出 JSON', icon: <Download size={13} />, onSelect: () => downloadTree(data, 'json'), disabled: !data.length },
+                              { key: 'export-md', label: '导出 Markdown', icon: <Download size={13} />, onSelect: () => downloadTree(data, 'markdown'), disabled: !data.length },
+                              { key: 'export-opml', label: '导出 OPML', icon: <Download size={13} />, onSelect: () => downloadTree(data, 'opml'), disabled: !data.length },
+                              { key: 'import', label: '导入…', icon: <Upload size={13} />, onSelect: () => importInputRef.current?.click() },
+                              { key: 'focus-settings', label: '专注方案…', icon: <SlidersHorizontal size={13} />, onSelect: () => setShowFocusSettings(true), dividerBefore: true },
+                              { key: 'limits', label: '层级与字数…', icon: <ListTree size={13} />, onSelect: openLimitsSettings },
+                              { key: 'shortcuts', label: '快捷键', icon: <Keyboard size={13} />, onSelect: () => setShowShortcuts(true) },
+                              { key: 'clear-all', label: '清空全部', icon: <Trash2 size={13} />, onSelect: () => setShowClearAllConfirm(true), danger: true, disabled: !data.length, dividerBefore: true }
+                          ]}
+                      />
+                      <input
+                          ref={importInputRef}
+                          type="file"
+                          accept=".json,.md,.markdown,.txt,.opml,.xml"
+                          className="hidden"
+                          onChange={handleImportFile}
+                      />
+                      <button 
+                          onClick={() => handleAdd(null, -1)}
+                          className="w-10 h-10 flex items-center justify-center bg-slate-800 hover:bg-slate-900 text-white rounded-full shadow-md hover:shadow-lg hover:-translate-y-0.5 transition-all active:scale-95"
+                          title="新建项目"
+                      >
+                          <Plus size={16} />
+                      </button>
+                  </div>
+              </div>
+            )}
         </div>
 
+        {tagFilter !== null && (
+          <TagFilterBar
+            tags={allTags}
+            selected={tagFilter}
+            onToggle={toggleTagFilter}
+            onClose={() => setTagFilter(null)}
+          />
+        )}
+
+        {quarantineCount > 0 && (
+          <div className="flex-shrink-0 mx-4 mb-1 flex items-center gap-2 rounded-xl bg-amber-50 border border-amber-200 px-3 py-1.5 text-[11px] text-amber-700">
+            <span className="flex-1">有 {quarantineCount} 份数据无法读取，已另存备份</span>
+            <button onClick={handleDownloadQuarantine} className="font-bold hover:text-amber-900">下载备份</button>
+            <button onClick={() => setQuarantineCount(0)} className="p-0.5 rounded-full hover:bg-amber-100" title="知道了">
+              <X size={12} />
+            </button>
+          </div>
+        )}
+
         {/* --- 2. 列表主体：独立滚动 --- */}
         <div
           ref={listRef}
           className="flex-1 overflow-y-auto px-4 pt-3 pb-4 no-scrollbar relative"
-          onDragOver={handleListDragOver}
-          onDragLeave={handleListDragLeave}
-          onDrop={handleListDrop}
         >
-          {data.length === 0 ? (
+          {showArchive ? (
+            <ArchivePanel
+              entries={listArchive}
+              onRestore={handleRestoreCompleted}
+              onRemove={handleRemoveCompleted}
+              onClose={() => setShowArchive(false)}
+            />
+          ) : showNextAction ? (
+            <NextActionView
+              path={currentNextAction}
+              position={currentNextActionIndex}
+              total={leafPaths.length}
+              onFinish={handleFinishNextAction}
+              onSkip={handleSkipNextAction}
+              onDefer={handleDeferNextAction}
+              onClose={toggleNextAction}
+            />
+          ) : tagFilter?.length && !viewTree.length && !searchResult ? (
+            <div className="py-16 text-center text-slate-400 text-sm font-bold">没有带这些标签的任务</div>
+          ) : searchResult && !searchResult.order.length ? (
+            <div className="py-16 text-center text-slate-400 text-sm font-bold">没有找到「{searchQuery?.trim()}」</div>
+          ) : data.length === 0 ? (
             <div className="h-full flex flex-col items-center justify-center border-2 border-dashed border-white/40 rounded-2xl bg-white/10 backdrop-blur-sm mx-4">
               <p className="text-slate-400 mb-2 text-sm font-bold">暂无内容</p>
             </div>
           ) : (
-            <ul className="space-y-3 pb-8"> 
+            <ul className="space-y-3 pb-8" role="tree" aria-multiselectable="true" aria-label={`清单：${activeList.name}`}>
               {(() => {
                 const rootPlaceholders = snapPlaceholders.filter(p => p.parentId === null).sort((a, b) => a.index - b.index);
-                const total = data.length + rootPlaceholders.length;
+                const total = viewTree.length + rootPlaceholders.length;
                 const placeholderMap = new Map(rootPlaceholders.map(p => [p.index, p]));
                 let dataPtr = 0;
                 return Array.from({ length: total }).map((_, slot) => {
                   const placeholder = placeholderMap.get(slot);
                   if (placeholder) return <SnapPlaceholderItem key={`ph-root-${placeholder.id}`} placeholder={placeholder} level={0} />;
-                  const item = data[dataPtr++];
+                  const item = viewTree[dataPtr++];
                   if (!item) return null;
                   return (
                     <TreeNode 
                       key={item.id} 
                       item={item} index={slot} level={0}
-                      parentOpacity={1} enableOpacity={enableOpacity} opacityMode={opacityMode}
-                      deleteConfirmId={deleteConfirmId} deletingAncestor={false} selectedId={selectedId} draggingId={draggingId} snappingIds={snappingIds}
+                      parentStrength={1} focus={searchResult ? null : focus}
+                      deleteConfirmId={deleteConfirmId} deletingAncestor={false} selectedId={selectedId} selectionIds={selectionIds} draggedIds={draggedIds} snappingIds={snappingIds}
                       lengthWarningId={lengthWarning?.id ?? null}
                       lengthWarningExcess={lengthWarning?.excess ?? null}
                       pendingEditId={pendingEditId}
+                      searchMatches={searchResult?.matches ?? null}
+                      focusableId={focusableId}
+                      now={now}
+                      scheduleOpenId={scheduleTarget?.id ?? null}
+                      tagOpenId={tagTarget?.id ?? null}
+                      noteEditId={noteEditId}
                       registerHeaderRef={(nid, el) => {
                         if (!el) headerRefs.current.delete(nid);
                         else headerRefs.current.set(nid, el);
@@ -977,10 +2437,19 @@ const ProjectSorter: FC = () => {
                         else liRefs.current.set(nid, el);
                       }}
                       snapPlaceholders={snapPlaceholders}
+                      maxDepth={limits.maxDepth}
+                      dropTarget={draggingId ? dropTarget : null}
                       onToggle={toggleOpen} onAdd={handleAdd} onDeleteRequest={handleDeleteRequest}
-                      onConfirmDelete={confirmDelete} onRename={handleRename}
+                      onConfirmDelete={confirmDelete} onComplete={handleComplete} onRename={handleRename}
                       onSelect={handleSelect}
-                      onDragStart={handleDragStart} onDrop={handleDropOn} onPreviewMove={handlePreviewMove} onDragEnd={handleDragEnd}
+                      onFocusItem={setSelectedId}
+                      onScheduleRequest={handleScheduleRequest}
+                      onTagRequest={handleTagRequest}
+                      onTagClick={handleTagClick}
+                      onNoteRequest={handleNoteRequest}
+                      onSaveNote={handleSaveNote}
+                      onCancelNote={() => setNoteEditId(null)}
+                      onDragPointerDown={handleDragPointerDown}
                       onResolvePendingEdit={id => {
                         if (pendingEditId === id) setPendingEditId(null);
                       }}
@@ -1005,6 +2474,183 @@ const ProjectSorter: FC = () => {
             </div>
         </div>
       )}
+      {(pendingImport || importError) && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-sm" onClick={() => { setPendingImport(null); setImportError(null); }} />
+          <div className="relative bg-white rounded-2xl p-4 shadow-2xl max-w-[260px] w-full animate-in fade-in zoom-in-95 duration-200 border border-slate-100 text-center">
+            {importError ? (
+              <>
+                <div className="mb-1 text-slate-800 font-bold text-sm">导入失败</div>
+                <div className="mb-3 text-xs text-slate-500">{importError}</div>
+                <button onClick={() => setImportError(null)} className="px-3 py-1.5 rounded-lg text-xs font-medium text-slate-600 hover:bg-slate-100">知道了</button>
+              </>
+            ) : pendingImport && (
+              <>
+                <div className="mb-1 text-slate-800 font-bold text-sm">导入 {pendingImport.report.count} 项</div>
+                <div className="mb-1 text-[11px] text-slate-400 truncate" title={pendingImport.fileName}>{pendingImport.fileName}</div>
+                <ul className="mb-3 text-[11px] text-slate-500 space-y-0.5">
+                  {pendingImport.report.truncated > 0 && <li>{pendingImport.report.truncated} 个标题超过 {limits.maxTitleLength} 字，已截断</li>}
+                  {pendingImport.report.flattened > 0 && <li>{pendingImport.report.flattened} 个节点超过 {limits.maxDepth} 层，已上移</li>}
+                  {pendingImport.report.skipped > 0 && <li>跳过 {pendingImport.report.skipped} 个已勾选的条目</li>}
+                </ul>
+                <div className="flex justify-center gap-2">
+                  <button onClick={() => setPendingImport(null)} className="px-3 py-1.5 rounded-lg text-xs font-medium text-slate-600 hover:bg-slate-100">取消</button>
+                  {data.length > 0 && (
+                    <button onClick={() => applyImport('replace')} className="px-3 py-1.5 rounded-lg text-xs font-medium text-red-500 hover:bg-red-50">替换全部</button>
+                  )}
+                  <button onClick={() => applyImport('append')} className="px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-white hover:bg-slate-900 shadow-md">追加</button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+      {undoToast && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[150] flex items-center gap-3 bg-slate-800 text-white text-xs rounded-full pl-4 pr-1.5 py-1.5 shadow-lg animate-in fade-in slide-in-from-bottom-2 duration-200 max-w-[300px]">
+          <span className="truncate">{undoToast}</span>
+          <button
+            onClick={handleUndoFromToast}
+            className="flex-shrink-0 flex items-center gap-1 px-2.5 py-1 rounded-full bg-white/15 hover:bg-white/25 font-bold"
+          >
+            <Undo2 size={12} />
+            撤销
+          </button>
+        </div>
+      )}
+      {isMultiSelect && !draggingId && (
+        <div
+          role="toolbar"
+          aria-label="批量操作"
+          className={`fixed ${undoToast ? 'bottom-14' : 'bottom-4'} left-1/2 -translate-x-1/2 z-[140] flex items-center gap-0.5 bg-white/95 backdrop-blur-xl border border-slate-200 text-slate-500 text-xs rounded-full pl-3 pr-1 py-1 shadow-lg animate-in fade-in slide-in-from-bottom-2 duration-200`}
+        >
+          <span className="mr-1 font-bold text-[#5B8DEF] whitespace-nowrap">已选 {selectionIds.size} 项</span>
+          {[
+            { key: 'collapse', label: '收起', icon: <FoldVertical size={13} />, onClick: handleBulkCollapse },
+            { key: 'top', label: '移到最上面', icon: <ChevronsUp size={13} />, onClick: handleBulkMoveToTop },
+            { key: 'move', label: '移到…', icon: <FolderInput size={13} />, onClick: () => setShowMovePicker(true) }
+          ].map(action => (
+            <button
+              key={action.key}
+              onClick={action.onClick}
+              title={action.label}
+              aria-label={action.label}
+              className="w-7 h-7 rounded-full flex items-center justify-center hover:bg-slate-100 hover:text-slate-800 transition-colors"
+            >
+              {action.icon}
+            </button>
+          ))}
+          <button
+            onClick={handleBulkDelete}
+            title="删除"
+            aria-label="删除"
+            className="w-7 h-7 rounded-full flex items-center justify-center text-red-400 hover:bg-red-50 hover:text-red-600 transition-colors"
+          >
+            <Trash2 size={13} />
+          </button>
+          <div className="w-px h-3 bg-slate-200 mx-0.5" />
+          <button
+            onClick={() => setSelectionIds(new Set())}
+            title="取消多选 (Esc)"
+            aria-label="取消多选"
+            className="w-7 h-7 rounded-full flex items-center justify-center hover:bg-slate-100 hover:text-slate-800 transition-colors"
+          >
+            <X size={13} />
+          </button>
+        </div>
+      )}
+      <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+      {keyboardMoveMode && !showShortcuts && (
+        <div className="fixed top-[62px] left-1/2 -translate-x-1/2 z-[140] flex items-center gap-2 bg-[#5B8DEF] text-white text-[11px] rounded-full px-3 py-1 shadow-md">
+          移动模式：方向键调整位置
+          <button onClick={() => setKeyboardMoveMode(false)} className="font-bold opacity-80 hover:opacity-100">M 退出</button>
+        </div>
+      )}
+      {showShortcuts && <ShortcutSheet onClose={() => setShowShortcuts(false)} />}
+      {showFocusSettings && (
+        <FocusSettingsPanel
+          profiles={settings.profiles}
+          activeProfileId={focusProfile.id}
+          listName={activeList.name}
+          onSelect={profileId => updateActiveView({ enableOpacity: true, profileId })}
+          onCreate={handleCreateProfile}
+          onUpdate={handleUpdateProfile}
+          onDelete={handleDeleteProfile}
+          onClose={() => setShowFocusSettings(false)}
+        />
+      )}
+      {limitsLists && (
+        <LimitsSettingsPanel
+          limits={limits}
+          lists={limitsLists.map(list => (list.id === activeListId ? { ...list, tree: data } : list))}
+          onApply={handleApplyLimits}
+          onClose={() => setLimitsLists(null)}
+        />
+      )}
+      {showTemplates && (
+        <TemplatePanel
+          templates={[...BUILTIN_TEMPLATES, ...templates]}
+          tree={data}
+          defaultParentId={selectedId && !isMultiSelect ? selectedId : null}
+          maxDepth={limits.maxDepth}
+          onApply={handleApplyTemplate}
+          onDelete={handleDeleteTemplate}
+          onClose={() => setShowTemplates(false)}
+        />
+      )}
+      {showActivity && (
+        <ActivityPanel
+          log={activity}
+          listId={activeListId}
+          listName={activeList.name}
+          tree={data}
+          now={now}
+          onClose={() => setShowActivity(false)}
+        />
+      )}
+      {templateSource && (
+        <SaveTemplateDialog
+          source={templateSource}
+          onSave={handleSaveTemplate}
+          onClose={() => setTemplateSource(null)}
+        />
+      )}
+      {showMovePicker && isMultiSelect && (
+        <MoveTargetPicker
+          tree={data}
+          selectionIds={selectionIds}
+          maxDepth={limits.maxDepth}
+          onPick={handleBulkMoveInto}
+          onClose={() => setShowMovePicker(false)}
+        />
+      )}
+      {scheduleTarget && (() => {
+        const node = findNodeById(data, scheduleTarget.id);
+        return node ? (
+          <SchedulePopover
+            anchorEl={scheduleTarget.anchor}
+            item={node}
+            now={now}
+            onSetDue={dueAt => handleSetDue(node.id, dueAt)}
+            onSnooze={until => handleSnooze(node.id, until)}
+            onSetRepeat={rule => handleSetRepeat(node.id, rule)}
+          />
+        ) : null;
+      })()}
+      {tagTarget && (() => {
+        const node = findNodeById(data, tagTarget.id);
+        return node ? (
+          <TagPopover
+            anchorEl={tagTarget.anchor}
+            tags={node.tags ?? []}
+            suggestions={allTags}
+            onChange={tags => handleSetTags(node.id, tags)}
+          />
+        ) : null;
+      })()}
+      {draggingId && (() => {
+        const nodes = getSelectionRoots(data, draggedIds);
+        return nodes.length ? <DragGhost items={nodes} origin={dragPointRef.current} rejected={!!dropTarget?.rejected} elementRef={dragGhostRef} /> : null;
+      })()}
       {snapOverlays.map(entry => (
         <SnapOverlay key={`${entry.id}-${entry.rect.top}-${entry.rect.left}`} entry={entry} />
       ))}
@@ -1013,11 +2659,13 @@ const ProjectSorter: FC = () => {
 };
 
 const TreeNode: FC<TreeNodeProps> = ({ 
-  item, index, level, parentOpacity, 
-  enableOpacity, opacityMode, deleteConfirmId, deletingAncestor, selectedId, draggingId, snappingIds,
-  lengthWarningId, lengthWarningExcess, pendingEditId, registerHeaderRef, registerLiRef, snapPlaceholders,
-  onToggle, onAdd, onDeleteRequest, onConfirmDelete, onRename, onSelect,
-  onDragStart, onDrop, onPreviewMove, onDragEnd, onResolvePendingEdit
+  item, index, level, parentStrength, 
+  focus, deleteConfirmId, deletingAncestor, selectedId, selectionIds, draggedIds, snappingIds,
+  lengthWarningId, lengthWarningExcess, pendingEditId, searchMatches, focusableId, now, scheduleOpenId, tagOpenId, noteEditId, registerHeaderRef, registerLiRef, snapPlaceholders,
+  maxDepth, dropTarget,
+  onToggle, onAdd, onDeleteRequest, onConfirmDelete, onComplete, onRename, onSelect, onFocusItem, onScheduleRequest, onTagRequest, onTagClick,
+  onNoteRequest, onSaveNote, onCancelNote,
+  onDragPointerDown, onResolvePendingEdit
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(item.title);
@@ -1025,13 +2673,18 @@ const TreeNode: FC<TreeNodeProps> = ({
   const liRef = useRef<HTMLLIElement>(null);
   const headerRef = useRef<HTMLDivElement>(null);
   const childListRef = useRef<HTMLUListElement>(null);
-  const centerHoverStartRef = useRef<number|null>(null);
   const deleteBtnRef = useRef<HTMLButtonElement>(null);
   const [snapHeight, setSnapHeight] = useState<number | null>(null);
 
   const isSelected = selectedId === item.id;
+  const isInSelection = isSelected || selectionIds.has(item.id);
+  const dueStatus = getDueStatus(item, now);
+  const snoozed = isSnoozed(item, now);
   const isSnapping = snappingIds.has(item.id);
-  const isActive = !isSnapping && (isSelected || draggingId === item.id);
+  const isActive = !isSnapping && (isInSelection || draggedIds.has(item.id));
+  const dropPosition = !isSnapping && dropTarget?.id === item.id ? dropTarget.position : null;
+  const isDropRejected = dropPosition !== null && !!dropTarget?.rejected;
+  const atDepthLimit = level >= maxDepth - 1;
   useEffect(() => { if (isEditing && inputRef.current) inputRef.current.focus(); }, [isEditing]);
   useEffect(() => {
     if (!isEditing) setEditTitle(item.title);
@@ -1067,29 +2720,40 @@ const TreeNode: FC<TreeNodeProps> = ({
 
   const saveEdit = () => { if (editTitle.trim()) onRename(item.id, editTitle); else setEditTitle(item.title); setIsEditing(false); };
   
-  let localOpacity = 1;
-  if (enableOpacity) {
-    if (opacityMode === 1) localOpacity = index === 0 ? 1 : 0.01;
-    else if (opacityMode === 2) localOpacity = index === 0 ? 1 : (index === 1 ? 0.5 : 0.01);
-    else if (opacityMode === 3) localOpacity = index === 0 ? 1 : (index === 1 ? 0.5 : (index === 2 ? 0.15 : 0.01));
+  // leaf 顺序直接按队列名次取强度；sibling 顺序沿层级相乘
+  let currentStrength = 1;
+  if (focus) {
+    const leafRank = focus.leafRanks?.get(item.id);
+    currentStrength = leafRank !== undefined
+      ? getRankStrength(focus.profile, leafRank)
+      : parentStrength * getRankStrength(focus.profile, index);
   }
-  const currentOpacity = parentOpacity * Math.max(0.01, localOpacity);
+  currentStrength = Math.max(MIN_FOCUS_STRENGTH, currentStrength);
 
   const isDeleting = deletingAncestor || deleteConfirmId === item.id || isSnapping;
-  const visibleOpacity = isSnapping ? Math.max(currentOpacity, 0.4) : currentOpacity;
-  const baseContainerClass = `group relative flex items-center gap-2 bg-white/40 border border-white/60 shadow-sm text-slate-700 rounded-full px-3 py-1.5 hover:bg-white/80 cursor-pointer hover:!opacity-100 hover:shadow-md hover:border-white transition-all duration-300`;
+  const visibleStrength = isSnapping ? Math.max(currentStrength, 0.4) : currentStrength;
+  // 选中项始终清晰，方便键盘和读屏用户看清当前位置
+  const focusStyle = getFocusStyle(focus?.profile.effect ?? 'opacity', isInSelection ? 1 : visibleStrength);
+  const baseContainerClass = `group relative flex items-center gap-2 bg-white/40 border border-white/60 shadow-sm text-slate-700 rounded-full px-3 py-1.5 hover:bg-white/80 cursor-pointer hover:!opacity-100 hover:![filter:none] hover:![transform:none] hover:shadow-md hover:border-white transition-all duration-300`;
   const containerClass = isDeleting 
     ? `relative flex items-center gap-2 bg-red-50/80 border border-red-200 shadow-sm text-red-700 rounded-full px-3 py-1.5 cursor-pointer hover:!opacity-100`
-    : `${baseContainerClass} ${isActive ? 'ring-2 ring-[#5B8DEF]/40' : ''}`;
+    : `${baseContainerClass} ${
+        isDropRejected
+          ? 'ring-2 ring-red-400/70 !opacity-100'
+          : dropPosition === 'inside'
+            ? 'ring-2 ring-[#5B8DEF] bg-[#5B8DEF]/10 !opacity-100'
+            : isActive ? `ring-2 ring-[#5B8DEF]/40 ${selectionIds.has(item.id) ? 'bg-[#5B8DEF]/10' : ''}` : ''
+      } ${isInSelection ? '!opacity-100' : ''}`;
 
   const renderNodeBody = (withRef: boolean, extraClass = '', disablePointer = false) => (
     <div 
       className={`${containerClass} ${extraClass} ${disablePointer ? 'pointer-events-none' : ''}`}
-      style={{ opacity: visibleOpacity, transition: 'all 0.3s ease', animation: draggingId ? 'drag-slide 0.32s' : undefined, minWidth: MIN_NODE_WIDTH }}
+      style={{ ...focusStyle, transition: 'all 0.3s ease', minWidth: MIN_NODE_WIDTH }}
       ref={withRef ? (el => { headerRef.current = el; if (el) registerHeaderRef(item.id, el); }) : undefined}
-      onClick={disablePointer ? undefined : (e) => { e.stopPropagation(); onSelect(item.id); }}
+      onClick={disablePointer ? undefined : (e) => { e.stopPropagation(); onSelect(item.id, e); }}
+      onPointerDown={disablePointer || isEditing || noteEditId === item.id ? undefined : (e) => onDragPointerDown(item.id, e)}
     >
-      <div className="flex-shrink-0 flex items-center justify-center w-5 h-5 rounded-full cursor-pointer transition-all hover:bg-black/5 text-slate-500" onClick={disablePointer ? undefined : (e) => { e.stopPropagation(); onToggle(item.id); }}>
+      <div aria-hidden="true" className="flex-shrink-0 flex items-center justify-center w-5 h-5 rounded-full cursor-pointer transition-all hover:bg-black/5 text-slate-500" onClick={disablePointer ? undefined : (e) => { e.stopPropagation(); onToggle(item.id); }}>
          {item.children?.length ? (item.isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />) : <Circle size={4} className="fill-current opacity-40 stroke-none" />}
       </div>
       <div className="flex-1 min-w-0 flex items-baseline mr-1">
@@ -1100,6 +2764,7 @@ const TreeNode: FC<TreeNodeProps> = ({
             onChange={e => setEditTitle(e.target.value)}
             onBlur={saveEdit}
             rows={1}
+            aria-label="任务标题"
             onKeyDown={e => {
               if (e.key === 'Enter' && !e.shiftKey) {
                 e.preventDefault();
@@ -1117,13 +2782,14 @@ const TreeNode: FC<TreeNodeProps> = ({
           />
         ) : (
           <span
-            onClick={disablePointer ? undefined : (e) => { e.stopPropagation(); onSelect(item.id); }}
+            id={withRef ? `tree-title-${item.id}` : undefined}
+            onClick={disablePointer ? undefined : (e) => { e.stopPropagation(); onSelect(item.id, e); }}
             onDoubleClick={disablePointer ? undefined : (e) => { e.stopPropagation(); setIsEditing(true); }}
             className={`cursor-text hover:opacity-70 transition-opacity block w-full text-sm ${item.title.trim() ? '' : 'text-slate-400 italic'}`}
             style={getTitleStyle(isSelected)}
             title={item.title.trim() ? item.title : PLACEHOLDER_TITLE}
           >
-            {formatTitle(item.title, isSelected)}
+            {renderTitle(item.title, isSelected, searchMatches?.get(item.id))}
           </span>
         )}
       </div>
@@ -1132,12 +2798,116 @@ const TreeNode: FC<TreeNodeProps> = ({
           超出了{lengthWarningExcess}字
         </div>
       )}
-      <div className={`flex items-center gap-0.5 ${deleteConfirmId === item.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'} transition-all duration-200 delete-action-area relative`}>
+      {isDropRejected && (
+        <div className="absolute -top-8 left-1/2 -translate-x-1/2 flex items-center gap-1 whitespace-nowrap bg-red-100 text-red-600 text-[11px] font-medium px-2 py-0.5 rounded-full border border-red-200 shadow-sm pointer-events-none">
+          <Ban size={11} />
+          最多 {maxDepth} 层，放不下
+        </div>
+      )}
+      {!isEditing && item.url && (
+        <button
+          onClick={disablePointer ? undefined : (e) => { e.stopPropagation(); openUrl(item.url!); }}
+          tabIndex={-1}
+          className="flex-shrink-0 p-0.5 -mx-0.5 rounded-full text-slate-400 hover:text-[#5B8DEF] hover:bg-black/5"
+          title={`打开 ${formatUrlHost(item.url)}`}
+          aria-label={`打开 ${formatUrlHost(item.url)}`}
+        >
+          <ExternalLink size={11} />
+        </button>
+      )}
+      {!isEditing && item.note && (
+        <StickyNote size={11} className="flex-shrink-0 text-slate-400" aria-label="有备注" />
+      )}
+      {!isEditing && item.repeat && (
+        <span className="flex-shrink-0 text-slate-400" title={`重复：${formatRepeatRule(item.repeat)}`}>
+          <Repeat size={11} aria-label={`重复：${formatRepeatRule(item.repeat)}`} />
+        </span>
+      )}
+      {!isEditing && item.tags?.length ? (
+        <span className="flex-shrink-0 flex items-center gap-0.5">
+          {item.tags.slice(0, MAX_VISIBLE_TAGS).map(tag => (
+            <button
+              key={tag}
+              onClick={disablePointer ? undefined : (e) => { e.stopPropagation(); onTagClick(tag); }}
+              tabIndex={-1}
+              className={`px-1.5 rounded-full text-[10px] leading-4 max-w-[64px] truncate ${getTagColor(tag)}`}
+              title={`只看 #${tag}`}
+            >
+              {tag}
+            </button>
+          ))}
+          {item.tags.length > MAX_VISIBLE_TAGS && (
+            <span className="text-[10px] text-slate-400" title={item.tags.map(tag => `#${tag}`).join(' ')}>+{item.tags.length - MAX_VISIBLE_TAGS}</span>
+          )}
+        </span>
+      ) : null}
+      {!isEditing && (snoozed || dueStatus) && (
+        <span
+          className={`flex-shrink-0 flex items-center gap-0.5 px-1.5 rounded-full text-[10px] leading-4 ${
+            snoozed
+              ? 'text-slate-400 bg-slate-100/70'
+              : dueStatus === 'overdue'
+                ? 'text-red-500 bg-red-50'
+                : dueStatus === 'today'
+                  ? 'text-amber-600 bg-amber-50'
+                  : 'text-slate-400'
+          }`}
+          title={snoozed ? `推迟到 ${formatShortDate(item.snoozeUntil!)}` : `截止 ${formatShortDate(item.dueAt!)}`}
+        >
+          {snoozed && <Moon size={9} />}
+          {snoozed
+            ? formatShortDate(item.snoozeUntil!)
+            : dueStatus === 'overdue'
+              ? `逾期 ${getOverdueDays(item.dueAt!, now)} 天`
+              : dueStatus === 'today'
+                ? '今天到期'
+                : formatShortDate(item.dueAt!)}
+        </span>
+      )}
+      <div className={`flex items-center gap-0.5 ${deleteConfirmId === item.id || scheduleOpenId === item.id || tagOpenId === item.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'} transition-all duration-200 delete-action-area relative`}>
+        <button
+          onClick={disablePointer ? undefined : (e) => { e.stopPropagation(); onScheduleRequest(item.id, e.currentTarget); }}
+          tabIndex={-1}
+          className={`schedule-action p-1 rounded-full transition-all ${scheduleOpenId === item.id ? 'bg-slate-800 text-white' : 'hover:bg-black/5'}`}
+          title="截止日期 / 推迟 / 重复"
+          aria-label="截止日期 / 推迟 / 重复"
+        >
+          <CalendarClock size={14} />
+        </button>
+        <button
+          onClick={disablePointer ? undefined : (e) => { e.stopPropagation(); onTagRequest(item.id, e.currentTarget); }}
+          tabIndex={-1}
+          className={`tag-action p-1 rounded-full transition-all ${tagOpenId === item.id ? 'bg-slate-800 text-white' : 'hover:bg-black/5'}`}
+          title="标签"
+          aria-label="标签"
+        >
+          <Tag size={14} />
+        </button>
+        <button
+          onClick={disablePointer ? undefined : (e) => { e.stopPropagation(); onNoteRequest(item.id); }}
+          tabIndex={-1}
+          className={`p-1 rounded-full transition-all ${noteEditId === item.id ? 'bg-slate-800 text-white' : 'hover:bg-black/5'}`}
+          title={item.note ? '编辑备注' : '添加备注'}
+          aria-label={item.note ? '编辑备注' : '添加备注'}
+        >
+          <StickyNote size={14} />
+        </button>
+        <button
+          onClick={disablePointer ? undefined : (e) => { e.stopPropagation(); onComplete(item.id); }}
+          tabIndex={-1}
+          className="p-1 rounded-full transition-all hover:bg-emerald-500/10 hover:text-emerald-600"
+          title={item.children.length ? '完成（含全部子任务）' : '标记完成'}
+          aria-label={item.children.length ? '完成（含全部子任务）' : '标记完成'}
+        >
+          <Check size={14} />
+        </button>
         <button
           onClick={disablePointer ? undefined : (e) => { e.stopPropagation(); onAdd(item.id, level); }}
-          disabled={level >= MAX_DEPTH - 1}
-          className={`p-1 rounded-full transition-all ${level >= MAX_DEPTH - 1 ? 'text-slate-300 cursor-not-allowed' : 'hover:bg-black/5'}`}
-          title={level >= MAX_DEPTH - 1 ? '最多 5 层，无法再添加子节点' : '添加子节点'}
+          disabled={atDepthLimit}
+          tabIndex={-1}
+          className={`p-1 rounded-full transition-all ${atDepthLimit ? 'text-slate-300 cursor-not-allowed' : 'hover:bg-black/5'}`}
+          title={atDepthLimit ? `最多 ${maxDepth} 层，无法再添加子节点` : '添加子节点'}
+          aria-label={atDepthLimit ? `最多 ${maxDepth} 层，无法再添加子节点` : '添加子节点'}
         >
           <Plus size={14} />
         </button>
@@ -1145,7 +2915,10 @@ const TreeNode: FC<TreeNodeProps> = ({
            <button
              ref={withRef ? deleteBtnRef : undefined}
              onClick={disablePointer ? undefined : (e) => { e.stopPropagation(); onDeleteRequest(item.id); }}
+             tabIndex={-1}
              className={`p-1 rounded-full transition-all ${deleteConfirmId === item.id ? 'bg-red-500 text-white' : 'hover:bg-red-500/10 hover:text-red-600'}`}
+             title={deleteConfirmId === item.id ? '确认删除（含全部子任务）' : '删除'}
+             aria-label={deleteConfirmId === item.id ? '确认删除（含全部子任务）' : '删除'}
            >
              <Trash2 size={14} />
            </button>
@@ -1162,41 +2935,23 @@ const TreeNode: FC<TreeNodeProps> = ({
 
   return (
     <li 
-      className="select-none transition-all duration-300 ease-in-out project-item" 
+      className={`select-none transition-all duration-300 ease-in-out project-item outline-none ${draggedIds.has(item.id) ? 'opacity-40' : ''}`}
       style={{ paddingLeft: level > 0 ? '0.5rem' : '0', zIndex: 50 - level * 5 - index }}
-      draggable={!isEditing && !isSnapping} 
-      ref={el => { liRef.current = el; registerLiRef(item.id, el); }}
-      onDragStart={(e) => { e.stopPropagation(); e.dataTransfer.effectAllowed = 'move'; e.dataTransfer.setData('text/plain', item.id); if(TRANSPARENT_DRAG_IMAGE) e.dataTransfer.setDragImage(TRANSPARENT_DRAG_IMAGE,0,0); onDragStart(item.id); }}
-      onDragOver={(e) => {
-          e.preventDefault(); e.stopPropagation();
-          if (isSnapping) return;
-          if (item.isOpen && childListRef.current) { const r = childListRef.current.getBoundingClientRect(); if (e.clientY >= r.top && e.clientY <= r.bottom) return; }
-          if (draggingId && draggingId !== item.id) {
-            const rect = (headerRef.current ?? e.currentTarget).getBoundingClientRect();
-            const y = e.clientY, top = rect.top, h = rect.height;
-            let pos: InsertPosition = 'inside';
-            if (y >= top + h * 0.2 && y <= top + h * 0.8) {
-                if (!centerHoverStartRef.current) centerHoverStartRef.current = Date.now();
-                if (Date.now() - centerHoverStartRef.current < 500) pos = y < top + h/2 ? 'before' : 'after';
-            } else { centerHoverStartRef.current = null; pos = y < top + h * 0.4 ? 'before' : 'after'; }
-            onPreviewMove(item.id, pos);
-          }
+      role="treeitem"
+      aria-level={level + 1}
+      aria-selected={isInSelection}
+      aria-expanded={item.children.length ? !!item.isOpen : undefined}
+      aria-labelledby={`tree-title-${item.id}`}
+      tabIndex={focusableId === item.id ? 0 : -1}
+      onFocus={e => {
+        // 只有键盘 Tab 进来时才顺带选中；鼠标点击由 onClick 处理选中/取消
+        if (e.target === e.currentTarget && !isSelected && e.currentTarget.matches(':focus-visible')) onFocusItem(item.id);
       }}
-      onDrop={(e) => {
-          e.preventDefault(); e.stopPropagation();
-          if (isSnapping) return;
-          if (item.isOpen && childListRef.current) { const r = childListRef.current.getBoundingClientRect(); if (e.clientY >= r.top && e.clientY <= r.bottom) return; }
-          const rect = (headerRef.current ?? e.currentTarget).getBoundingClientRect();
-          const y = e.clientY, top = rect.top, h = rect.height;
-          let pos: InsertPosition = 'inside';
-          if (y >= top + h * 0.1 && y <= top + h * 0.9) {
-             if ((centerHoverStartRef.current && Date.now() - centerHoverStartRef.current < 500) || !centerHoverStartRef.current) pos = y < top + h/2 ? 'before' : 'after';
-          } else pos = y < top + h * 0.1 ? 'before' : 'after';
-          onDrop(item.id, pos);
-      }}
-      onDragEnd={(e) => { e.stopPropagation(); centerHoverStartRef.current = null; onDragEnd(); }}
+      data-node-id={item.id}
+      ref={el => { liRef.current = el; registerLiRef(item.id, el); }}
     >
       <div className="relative" style={isSnapping && snapHeight ? { height: snapHeight } : undefined}>
+        {dropPosition === 'before' && <DropLine rejected={isDropRejected} className="-top-[5px]" />}
         {!isSnapping && renderNodeBody(true, '', isSnapping)}
         {isSnapping && (
           <>
@@ -1216,8 +2971,17 @@ const TreeNode: FC<TreeNodeProps> = ({
           </>
         )}
       </div>
+      {!isSnapping && isSelected && (item.note || noteEditId === item.id) && (
+        <NotePanel
+          note={item.note ?? ''}
+          editing={noteEditId === item.id}
+          onEdit={() => onNoteRequest(item.id)}
+          onSave={note => onSaveNote(item.id, note)}
+          onCancel={onCancelNote}
+        />
+      )}
       {!isSnapping && item.isOpen && (item.children?.length || snapPlaceholders.some(p => p.parentId === item.id)) ? (
-        <ul ref={childListRef} className="mt-1.5 space-y-1.5 border-l border-white/20 ml-2 pl-1 relative">
+        <ul ref={childListRef} role="group" className="mt-1.5 space-y-1.5 border-l border-white/20 ml-2 pl-1 relative">
           {(() => {
             const childPlaceholders = snapPlaceholders.filter(p => p.parentId === item.id).sort((a, b) => a.index - b.index);
             const total = (item.children?.length ?? 0) + childPlaceholders.length;
@@ -1236,30 +3000,43 @@ const TreeNode: FC<TreeNodeProps> = ({
                   item={child}
                   index={slot}
                   level={level + 1}
-                  parentOpacity={currentOpacity}
-                  enableOpacity={enableOpacity}
-                  opacityMode={opacityMode}
+                  parentStrength={currentStrength}
+                  focus={focus}
                   deleteConfirmId={deleteConfirmId}
                   deletingAncestor={isDeleting}
                   selectedId={selectedId}
-                  draggingId={draggingId}
+                  selectionIds={selectionIds}
+                  draggedIds={draggedIds}
                   snappingIds={snappingIds}
                   lengthWarningId={lengthWarningId}
                   lengthWarningExcess={lengthWarningExcess}
                   pendingEditId={pendingEditId}
+                  searchMatches={searchMatches}
+                  focusableId={focusableId}
+                  now={now}
+                  scheduleOpenId={scheduleOpenId}
+                  tagOpenId={tagOpenId}
+                  noteEditId={noteEditId}
                   registerHeaderRef={registerHeaderRef}
                   registerLiRef={registerLiRef}
                   snapPlaceholders={snapPlaceholders}
+                  maxDepth={maxDepth}
+                  dropTarget={dropTarget}
                   onToggle={onToggle}
                   onAdd={onAdd}
                   onDeleteRequest={onDeleteRequest}
                   onConfirmDelete={onConfirmDelete}
+                  onComplete={onComplete}
                   onRename={onRename}
                   onSelect={onSelect}
-                  onDragStart={onDragStart}
-                  onDrop={onDrop}
-                  onPreviewMove={onPreviewMove}
-                  onDragEnd={onDragEnd}
+                  onFocusItem={onFocusItem}
+                  onScheduleRequest={onScheduleRequest}
+                  onTagRequest={onTagRequest}
+                  onTagClick={onTagClick}
+                  onNoteRequest={onNoteRequest}
+                  onSaveNote={onSaveNote}
+                  onCancelNote={onCancelNote}
+                  onDragPointerDown={onDragPointerDown}
                   onResolvePendingEdit={onResolvePendingEdit}
                 />
               );
@@ -1267,10 +3044,51 @@ const TreeNode: FC<TreeNodeProps> = ({
           })()}
         </ul>
       ) : null}
+      {dropPosition === 'after' && (
+        <div className="relative">
+          <DropLine rejected={isDropRejected} className="top-[2px]" />
+        </div>
+      )}
     </li>
   );
 };
 
+/** 拖拽插入线：before 画在节点上方，after 画在整棵子树下方 */
+const DropLine: FC<{ rejected: boolean; className: string }> = ({ rejected, className }) => (
+  <div aria-hidden="true" className={`absolute left-0 right-0 z-10 h-0.5 rounded-full pointer-events-none ${rejected ? 'bg-red-400' : 'bg-[#5B8DEF]'} ${className}`}>
+    <span className={`absolute -left-1 -top-[3px] w-2 h-2 rounded-full border-2 bg-white ${rejected ? 'border-red-400' : 'border-[#5B8DEF]'}`} />
+  </div>
+);
+
+interface DragGhostProps {
+  /** 整组拖动时按屏幕顺序的各棵子树 */
+  items: TreeItem[];
+  origin: DragPoint;
+  rejected: boolean;
+  elementRef: RefObject<HTMLDivElement | null>;
+}
+
+/** 跟手的拖拽影子；位置由拖拽事件直接写 transform，不触发重新渲染。 */
+const DragGhost: FC<DragGhostProps> = ({ items, origin, rejected, elementRef }) => {
+  const [first] = items;
+  const descendants = items.reduce((sum, item) => sum + collectSubtreeIds(item).length, 0) - items.length;
+  if (typeof document === 'undefined') return null;
+  return createPortal(
+    <div
+      ref={elementRef}
+      aria-hidden="true"
+      className={`fixed top-0 left-0 z-[1000] pointer-events-none flex items-center gap-1.5 max-w-[220px] px-3 py-1 rounded-full bg-white/90 border shadow-lg text-xs text-slate-700 ${rejected ? 'border-red-200' : 'border-white'}`}
+      style={{ transform: getGhostTransform(origin) }}
+    >
+      {rejected && <Ban size={11} className="flex-shrink-0 text-red-500" />}
+      <span className="truncate">{formatTitle(first.title, false)}</span>
+      {items.length > 1 && <span className="flex-shrink-0 px-1.5 rounded-full bg-[#5B8DEF] text-white text-[10px] font-bold">{items.length} 项</span>}
+      {descendants > 0 && <span className="flex-shrink-0 text-[10px] text-slate-400">+{descendants}</span>}
+    </div>,
+    document.body
+  );
+};
+
 export default ProjectSorter;
 
 interface DeleteConfirmPopoverProps {
@@ -1323,6 +3141,7 @@ const DeleteConfirmPopover: FC<DeleteConfirmPopoverProps> = ({ anchorEl, onConfi
 
 const SnapPlaceholderItem: FC<{ placeholder: SnapPlaceholder; level: number }> = ({ placeholder, level }) => (
   <li
+    aria-hidden="true"
     className="project-item snap-placeholder-anim"
     style={{
       paddingLeft: level > 0 ? '0.5rem' : '0',
@@ -1374,5 +3193,1461 @@ const SnapOverlay: FC<{ entry: SnapOverlayEntry }> = ({ entry }) => {
       </div>
     </div>
   );
-  return createPortal(<div style={style}>{content}</div>, document.body);
+  return createPortal(<div style={style} aria-hidden="true">{content}</div>, document.body);
+};
+
+const formatArchiveDay = (timestamp: number): string => {
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+  if (timestamp >= startOfToday.getTime()) return '今天';
+  if (timestamp >= startOfToday.getTime() - DAY_MS) return '昨天';
+  return new Date(timestamp).toLocaleDateString('zh-CN', { month: 'long', day: 'numeric', weekday: 'short' });
+};
+
+interface ArchivePanelProps {
+  entries: CompletedEntry[];
+  onRestore: (entryId: string) => void;
+  onRemove: (entryId: string) => void;
+  onClose: () => void;
+}
+
+const ArchivePanel: FC<ArchivePanelProps> = ({ entries, onRestore, onRemove, onClose }) => {
+  const groups = useMemo(() => {
+    const map = new Map<string, CompletedEntry[]>();
+    [...entries]
+      .sort((a, b) => b.completedAt - a.completedAt)
+      .forEach(entry => {
+        const day = formatArchiveDay(entry.completedAt);
+        map.set(day, [...(map.get(day) ?? []), entry]);
+      });
+    return Array.from(map.entries());
+  }, [entries]);
+
+  return (
+    <div className="pb-8">
+      <div className="flex items-center justify-between mb-3 px-1">
+        <span className="text-sm font-bold text-slate-700">已完成 <span className="text-slate-400 font-medium">{entries.length}</span></span>
+        <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:text-slate-700 hover:bg-black/5" title="返回清单">
+          <X size={14} />
+        </button>
+      </div>
+      {groups.length === 0 ? (
+        <div className="py-16 text-center text-slate-400 text-sm font-bold">还没有完成的任务</div>
+      ) : (
+        groups.map(([day, list]) => (
+          <div key={day} className="mb-4">
+            <div className="text-[11px] font-bold text-slate-400 mb-1.5 px-1">{day} · {list.length} 项</div>
+            <ul className="space-y-1.5">
+              {list.map(entry => {
+                const subtaskCount = collectSubtreeIds(entry.item).length - 1;
+                return (
+                  <li key={entry.item.id} className="group flex items-center gap-2 bg-white/40 border border-white/60 shadow-sm rounded-full px-3 py-1.5 text-slate-500">
+                    <Check size={14} className="flex-shrink-0 text-emerald-500" />
+                    <div className="flex-1 min-w-0">
+                      <span className="block w-full text-sm line-through decoration-slate-300" style={getTitleStyle(false)} title={entry.item.title.trim() ? entry.item.title : PLACEHOLDER_TITLE}>
+                        {formatTitle(entry.item.title, false)}
+                      </span>
+                      {(entry.path.length > 0 || subtaskCount > 0) && (
+                        <span className="block w-full text-[10px] text-slate-400" style={getTitleStyle(false)}>
+                          {entry.path.join(' / ')}{entry.path.length > 0 && subtaskCount > 0 ? ' · ' : ''}{subtaskCount > 0 ? `含 ${subtaskCount} 个子任务` : ''}
+                        </span>
+                      )}
+                    </div>
+                    <span className="text-[10px] text-slate-400 flex-shrink-0">
+                      {new Date(entry.completedAt).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                    <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-all duration-200">
+                      <button onClick={() => onRestore(entry.item.id)} className="p-1 rounded-full hover:bg-black/5 hover:text-slate-700" title="恢复到清单">
+                        <RotateCcw size={12} />
+                      </button>
+                      <button onClick={() => onRemove(entry.item.id)} className="p-1 rounded-full hover:bg-red-500/10 hover:text-red-600" title="删除记录">
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+interface NextActionViewProps {
+  path: LeafPath | null;
+  position: number;
+  total: number;
+  onFinish: () => void;
+  onSkip: () => void;
+  onDefer: () => void;
+  onClose: () => void;
+}
+
+const NextActionView: FC<NextActionViewProps> = ({ path, position, total, onFinish, onSkip, onDefer, onClose }) => (
+  <div className="h-full flex flex-col pb-4">
+    <div className="flex items-center justify-between mb-3 px-1">
+      <span className="text-sm font-bold text-slate-700">
+        眼前一件事{total > 0 && <span className="text-slate-400 font-medium"> · {position + 1} / {total}</span>}
+      </span>
+      <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:text-slate-700 hover:bg-black/5" title="返回清单">
+        <X size={14} />
+      </button>
+    </div>
+    {!path ? (
+      <div className="flex-1 flex items-center justify-center text-slate-400 text-sm font-bold">眼前没有要做的事，歇会儿吧</div>
+    ) : (
+      <div className="flex-1 flex flex-col justify-center gap-4 px-2" aria-live="polite">
+        {path.ancestors.length > 0 && (
+          <nav aria-label="所在位置" className="flex items-center flex-wrap gap-0.5 text-[10px] text-slate-400">
+            {path.ancestors.map((ancestor, i) => (
+              <React.Fragment key={ancestor.id}>
+                {i > 0 && <ChevronRight size={10} className="flex-shrink-0" />}
+                <span className="max-w-[120px] truncate">{ancestor.title.trim() || PLACEHOLDER_TITLE}</span>
+              </React.Fragment>
+            ))}
+          </nav>
+        )}
+        <div className="bg-white/70 border border-white shadow-md rounded-2xl px-4 py-5 text-base font-bold text-slate-800 break-words">
+          {path.node.title.trim() || PLACEHOLDER_TITLE}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onFinish}
+            className="flex-1 flex items-center justify-center gap-1 py-2 rounded-full bg-emerald-500 hover:bg-emerald-600 text-white text-xs font-bold shadow-sm transition-colors"
+          >
+            <Check size={13} />
+            完成
+          </button>
+          <button
+            onClick={onSkip}
+            className="flex items-center justify-center gap-1 px-3 py-2 rounded-full bg-white/70 hover:bg-white text-slate-600 text-xs font-medium border border-white shadow-sm transition-colors"
+            title="移到同级末尾"
+          >
+            <SkipForward size={13} />
+            跳过
+          </button>
+          <button
+            onClick={onDefer}
+            disabled={total < 2}
+            className="flex items-center justify-center gap-1 px-3 py-2 rounded-full bg-white/70 hover:bg-white text-slate-600 text-xs font-medium border border-white shadow-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            title="清单不动，先看下一件"
+          >
+            <ChevronRight size={13} />
+            稍后
+          </button>
+        </div>
+      </div>
+    )}
+  </div>
+);
+
+interface SearchBarProps {
+  query: string;
+  /** 命中节点的深度优先顺序 */
+  resultIds: string[];
+  selectedId: string | null;
+  onChange: (query: string) => void;
+  onStep: (offset: 1 | -1) => void;
+  onClose: (jump: boolean) => void;
+}
+
+const SearchBar: FC<SearchBarProps> = ({ query, resultIds, selectedId, onChange, onStep, onClose }) => {
+  const position = selectedId ? resultIds.indexOf(selectedId) : -1;
+  return (
+    <div className="search-bar flex-1 min-w-0 ml-3 flex items-center gap-1.5 h-9 pl-3 pr-1 bg-white/70 backdrop-blur-xl rounded-full border border-white/50 shadow-sm shadow-slate-200/40">
+      <Search size={14} className="flex-shrink-0 text-slate-400" />
+      <input
+        autoFocus
+        value={query}
+        onChange={e => onChange(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            onClose(true);
+          } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose(false);
+          } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            onStep(e.key === 'ArrowDown' ? 1 : -1);
+          }
+        }}
+        placeholder="搜索标题或拼音首字母"
+        aria-label="搜索任务"
+        className="flex-1 min-w-0 bg-transparent text-xs text-slate-700 placeholder:text-slate-400 outline-none"
+      />
+      {query.trim() && (
+        <span className="flex-shrink-0 text-[10px] text-slate-400 tabular-nums" aria-live="polite">
+          {resultIds.length ? `${position + 1}/${resultIds.length}` : '0'}
+        </span>
+      )}
+      <button
+        onClick={() => onClose(false)}
+        className="flex-shrink-0 p-1 rounded-full text-slate-400 hover:text-slate-700 hover:bg-black/5"
+        title="关闭搜索（Esc）"
+      >
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
+
+interface ToolbarMenuItem {
+  key: string;
+  label: string;
+  icon: ReactNode;
+  onSelect: () => void;
+  danger?: boolean;
+  disabled?: boolean;
+  dividerBefore?: boolean;
+}
+
+interface ToolbarMenuProps {
+  open: boolean;
+  items: ToolbarMenuItem[];
+  onToggle: () => void;
+  onClose: () => void;
+}
+
+const ToolbarMenu: FC<ToolbarMenuProps> = ({ open, items, onToggle, onClose }) => (
+  <div className="toolbar-menu relative">
+    <button
+      onClick={onToggle}
+      className={`w-7 h-7 flex items-center justify-center rounded-full transition-colors ${open ? 'bg-slate-100 text-slate-700' : 'text-slate-400 hover:text-slate-700 hover:bg-slate-100'}`}
+      title="更多"
+    >
+      <Ellipsis size={14} />
+    </button>
+    {open && (
+      <div className="absolute right-0 top-full mt-2 w-36 bg-white rounded-xl shadow-xl border border-slate-100 py-1 z-[120] animate-in fade-in slide-in-from-top-1 duration-150">
+        {items.map(item => (
+          <React.Fragment key={item.key}>
+            {item.dividerBefore && <div className="my-1 h-px bg-slate-100" />}
+            <button
+              onClick={() => { onClose(); item.onSelect(); }}
+              disabled={item.disabled}
+              className={`w-full flex items-center gap-2 px-3 py-1.5 text-xs text-left transition-colors ${
+                item.disabled
+                  ? 'text-slate-300 cursor-not-allowed'
+                  : item.danger
+                    ? 'text-red-500 hover:bg-red-50'
+                    : 'text-slate-600 hover:bg-slate-50'
+              }`}
+            >
+              {item.icon}
+              {item.label}
+            </button>
+          </React.Fragment>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+interface ListSwitcherProps {
+  open: boolean;
+  lists: TaskList[];
+  activeId: string;
+  /** 当前选中的任务标题；有值时每个其它清单都提供「移到这里」 */
+  selectedTitle: string | null;
+  onToggle: () => void;
+  onSwitch: (listId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (listId: string, name: string) => void;
+  onDelete: (listId: string) => void;
+  onMoveSelected: (listId: string) => void;
+}
+
+const ListSwitcher: FC<ListSwitcherProps> = ({
+  open, lists, activeId, selectedTitle, onToggle, onSwitch, onCreate, onRename, onDelete, onMoveSelected
+}) => {
+  const [draftName, setDraftName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const activeName = lists.find(list => list.id === activeId)?.name ?? '';
+
+  useEffect(() => {
+    if (open) return;
+    setDraftName('');
+    setRenamingId(null);
+    setConfirmDeleteId(null);
+  }, [open]);
+
+  const commitRename = () => {
+    const name = renameDraft.trim();
+    if (renamingId && name) onRename(renamingId, name);
+    setRenamingId(null);
+  };
+
+  const commitCreate = () => {
+    const name = draftName.trim();
+    if (!name) return;
+    setDraftName('');
+    onCreate(name);
+  };
+
+  return (
+    <div className="list-switcher relative">
+      <button onClick={onToggle} className="relative flex flex-col items-center" title={`切换清单（当前：${activeName}）`}>
+        <img
+          src="/icons.png"
+          alt="Plan P"
+          className="w-8 h-8 rounded-lg shadow-sm"
+          style={{ objectFit: 'contain' }}
+        />
+        <span className="absolute top-[26px] max-w-[52px] truncate flex items-center gap-0.5 px-1.5 rounded-full bg-white/90 border border-slate-200/70 shadow-sm text-[9px] leading-[13px] font-bold text-slate-500">
+          {activeName}
+          <ChevronsUpDown size={8} className="flex-shrink-0" />
+        </span>
+      </button>
+      {open && (
+        <div className="absolute left-0 top-full mt-3 w-52 bg-white rounded-xl shadow-xl border border-slate-100 py-1 z-[120] animate-in fade-in slide-in-from-top-1 duration-150">
+          {selectedTitle !== null && (
+            <div className="px-3 py-1 text-[10px] text-slate-400" style={getTitleStyle(false)}>
+              把「{formatTitle(selectedTitle, false)}」移到其它清单
+            </div>
+          )}
+          <ul className="max-h-[220px] overflow-y-auto no-scrollbar">
+            {lists.map(list => {
+              const active = list.id === activeId;
+              return (
+                <li key={list.id} className="group flex items-center gap-1 px-2 py-1 hover:bg-slate-50">
+                  {renamingId === list.id ? (
+                    <input
+                      autoFocus
+                      value={renameDraft}
+                      maxLength={MAX_LIST_NAME_LENGTH}
+                      onChange={e => setRenameDraft(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      className="flex-1 min-w-0 text-xs px-1.5 py-0.5 rounded-md border border-[#5B8DEF]/40 outline-none"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => onSwitch(list.id)}
+                      className={`flex-1 min-w-0 flex items-center gap-1.5 px-1 py-0.5 text-xs text-left ${active ? 'font-bold text-slate-800' : 'text-slate-600'}`}
+                    >
+                      <Check size={12} className={`flex-shrink-0 text-[#5B8DEF] ${active ? '' : 'invisible'}`} />
+                      <span className="truncate">{list.name}</span>
+                    </button>
+                  )}
+                  {selectedTitle !== null && !active && renamingId !== list.id && (
+                    <button onClick={() => onMoveSelected(list.id)} className="p-1 rounded-full text-[#5B8DEF] hover:bg-[#5B8DEF]/10" title="移到这个清单">
+                      <CornerDownRight size={12} />
+                    </button>
+                  )}
+                  {renamingId !== list.id && (
+                    <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => { setRenamingId(list.id); setRenameDraft(list.name); setConfirmDeleteId(null); }}
+                        className="p-1 rounded-full text-slate-400 hover:text-slate-700 hover:bg-black/5"
+                        title="重命名"
+                      >
+                        <Pencil size={11} />
+                      </button>
+                      {lists.length > 1 && (
+                        <button
+                          onClick={() => (confirmDeleteId === list.id ? onDelete(list.id) : setConfirmDeleteId(list.id))}
+                          className={`p-1 rounded-full ${confirmDeleteId === list.id ? 'bg-red-500 text-white' : 'text-slate-400 hover:text-red-600 hover:bg-red-500/10'}`}
+                          title={confirmDeleteId === list.id ? '再点一次删除清单及其中的任务' : '删除清单'}
+                        >
+                          <Trash2 size={11} />
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          <div className="my-1 h-px bg-slate-100" />
+          <div className="flex items-center gap-1 px-2 py-1">
+            <input
+              value={draftName}
+              maxLength={MAX_LIST_NAME_LENGTH}
+              placeholder="新建清单，如：工作"
+              onChange={e => setDraftName(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') commitCreate(); }}
+              className="flex-1 min-w-0 text-xs px-1.5 py-1 rounded-md bg-slate-50 border border-transparent focus:border-[#5B8DEF]/40 outline-none placeholder:text-slate-300"
+            />
+            <button
+              onClick={commitCreate}
+              disabled={!draftName.trim()}
+              className={`p-1 rounded-full ${draftName.trim() ? 'text-slate-600 hover:bg-slate-100' : 'text-slate-300 cursor-not-allowed'}`}
+              title="新建清单"
+            >
+              <Plus size={13} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SHORTCUT_GROUPS: Array<{ title: string; items: Array<[string, string]> }> = [
+  {
+    title: '选择',
+    items: [
+      ['↑ ↓ / K J', '上一项 / 下一项'],
+      ['→', '展开，或进入第一个子项'],
+      ['←', '收起，或回到父项'],
+      ['Space', '展开 / 收起'],
+      ['Shift + ↑ ↓', '连续多选'],
+      ['Shift / Ctrl + 点击', '多选一段 / 增减一项'],
+      ['Esc', '取消多选，再按取消选择']
+    ]
+  },
+  {
+    title: '编辑',
+    items: [
+      ['Enter', '在下方新建同级'],
+      ['F2', '重命名'],
+      ['N', '编辑备注'],
+      ['Tab / Shift+Tab', '缩进 / 反缩进'],
+      ['Ctrl+C / X / V', '复制 / 剪切 / 粘贴到下方'],
+      ['Ctrl+Shift+V', '粘贴为子任务'],
+      ['Delete', '删除（有子任务时再按一次确认；多选时整组删除）'],
+      ['Ctrl+Z / Ctrl+Shift+Z', '撤销 / 重做']
+    ]
+  },
+  {
+    title: '移动',
+    items: [
+      ['Alt + ↑ ↓', '上移 / 下移'],
+      ['Alt + →', '放进下一项里'],
+      ['Alt + ←', '移出父项'],
+      ['M', '切换移动模式（方向键直接移动）']
+    ]
+  },
+  {
+    title: '视图',
+    items: [
+      ['/', '搜索（↑ ↓ 切换结果，Enter 跳过去）'],
+      ['F', '只看眼前一件事 / 返回清单'],
+      ['?', '打开 / 关闭快捷键列表']
+    ]
+  }
+];
+
+const ShortcutSheet: FC<{ onClose: () => void }> = ({ onClose }) => (
+  <div className="fixed inset-0 z-[130] flex items-center justify-center p-4">
+    <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-sm" onClick={onClose} />
+    <div className="relative bg-white rounded-2xl p-4 shadow-2xl w-full max-h-full overflow-y-auto no-scrollbar animate-in fade-in zoom-in-95 duration-200 border border-slate-100">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-bold text-slate-800">键盘快捷键</span>
+        <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:text-slate-700 hover:bg-black/5" title="关闭">
+          <X size={14} />
+        </button>
+      </div>
+      {SHORTCUT_GROUPS.map(group => (
+        <div key={group.title} className="mb-2 last:mb-0">
+          <div className="text-[10px] font-bold text-slate-400 mb-1">{group.title}</div>
+          <ul className="space-y-0.5">
+            {group.items.map(([keys, label]) => (
+              <li key={keys} className="flex items-center justify-between gap-3 text-[11px]">
+                <kbd className="flex-shrink-0 px-1.5 rounded bg-slate-100 border border-slate-200 font-mono text-[10px] text-slate-600">{keys}</kbd>
+                <span className="text-slate-500 text-right">{label}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+interface FocusSettingsPanelProps {
+  profiles: FocusProfile[];
+  activeProfileId: string;
+  listName: string;
+  onSelect: (profileId: string) => void;
+  onCreate: () => void;
+  onUpdate: (id: string, patch: Partial<Omit<FocusProfile, 'id'>>) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const FOCUS_ORDERS = Object.keys(FOCUS_ORDER_LABELS) as FocusOrder[];
+const FOCUS_EFFECTS = Object.keys(FOCUS_EFFECT_LABELS) as FocusEffect[];
+
+/** 曲线缩略图：每个名次一根柱子，高度即强度 */
+const CurvePreview: FC<{ curve: number[] }> = ({ curve }) => (
+  <span className="flex items-end gap-px h-3" aria-hidden="true">
+    {curve.map((value, i) => (
+      <span key={i} className="w-1 rounded-sm bg-[#5B8DEF]" style={{ height: `${Math.max(value, 0.08) * 100}%` }} />
+    ))}
+  </span>
+);
+
+const FocusSettingsPanel: FC<FocusSettingsPanelProps> = ({
+  profiles, activeProfileId, listName, onSelect, onCreate, onUpdate, onDelete, onClose
+}) => {
+  const editing = profiles.find(profile => profile.id === activeProfileId);
+  const chipClass = (active: boolean) =>
+    `px-2 py-0.5 rounded-full text-[10px] font-medium transition-colors ${active ? 'bg-[#5B8DEF] text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`;
+
+  const setCurve = (curve: number[]) => editing && onUpdate(editing.id, { curve });
+
+  return (
+    <div className="fixed inset-0 z-[130] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-sm" onClick={onClose} />
+      <div role="dialog" aria-label="专注方案" className="relative bg-white rounded-2xl p-4 shadow-2xl w-full max-h-full overflow-y-auto no-scrollbar animate-in fade-in zoom-in-95 duration-200 border border-slate-100">
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-sm font-bold text-slate-800">专注方案</span>
+          <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:text-slate-700 hover:bg-black/5" title="关闭">
+            <X size={14} />
+          </button>
+        </div>
+        <p className="text-[10px] text-slate-400 mb-2">应用到「{listName}」</p>
+
+        <ul role="radiogroup" aria-label="选择方案" className="space-y-0.5 mb-2">
+          {[...BUILTIN_FOCUS_PROFILES, ...profiles].map(profile => {
+            const checked = profile.id === activeProfileId;
+            return (
+              <li key={profile.id}>
+                <button
+                  role="radio"
+                  aria-checked={checked}
+                  onClick={() => onSelect(profile.id)}
+                  className={`w-full flex items-center gap-2 px-2 py-1 rounded-lg text-left text-[11px] transition-colors ${checked ? 'bg-[#5B8DEF]/10 text-[#5B8DEF] font-bold' : 'text-slate-600 hover:bg-slate-50'}`}
+                >
+                  <span className="flex-1 min-w-0 truncate">{profile.name}</span>
+                  <CurvePreview curve={profile.curve} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        <button
+          onClick={onCreate}
+          className="w-full flex items-center justify-center gap-1 py-1 rounded-lg border border-dashed border-slate-200 text-[11px] text-slate-400 hover:text-[#5B8DEF] hover:border-[#5B8DEF]/40 transition-colors"
+        >
+          <Plus size={12} />
+          以当前方案为底新建
+        </button>
+
+        {editing ? (
+          <div className="mt-3 pt-3 border-t border-slate-100 space-y-2">
+            <input
+              value={editing.name}
+              maxLength={MAX_PROFILE_NAME_LENGTH}
+              onChange={e => onUpdate(editing.id, { name: e.target.value })}
+              onBlur={e => { if (!e.target.value.trim()) onUpdate(editing.id, { name: '自定义方案' }); }}
+              aria-label="方案名称"
+              className="w-full px-2 py-1 rounded-lg border border-slate-200 text-[11px] text-slate-700 outline-none focus:border-[#5B8DEF]"
+            />
+            <div>
+              <div className="text-[10px] font-bold text-slate-400 mb-1">每个名次的清晰度</div>
+              {editing.curve.map((value, rank) => (
+                <div key={rank} className="flex items-center gap-2 text-[10px] text-slate-500">
+                  <span className="w-10 flex-shrink-0">{rank === editing.curve.length - 1 ? `第 ${rank + 1}+ 项` : `第 ${rank + 1} 项`}</span>
+                  <input
+                    type="range"
+                    min={Math.round(MIN_FOCUS_STRENGTH * 100)}
+                    max={100}
+                    value={Math.round(value * 100)}
+                    onChange={e => setCurve(editing.curve.map((v, i) => (i === rank ? clampStrength(Number(e.target.value) / 100) : v)))}
+                    aria-label={`第 ${rank + 1} 项的清晰度`}
+                    className="flex-1 accent-[#5B8DEF]"
+                  />
+                  <span className="w-7 text-right tabular-nums">{Math.round(value * 100)}%</span>
+                  <button
+                    onClick={() => setCurve(editing.curve.filter((_, i) => i !== rank))}
+                    disabled={editing.curve.length <= 1}
+                    className="p-0.5 rounded text-slate-300 hover:text-red-500 disabled:invisible"
+                    title="移除这一级"
+                  >
+                    <X size={10} />
+                  </button>
+                </div>
+              ))}
+              {editing.curve.length < MAX_CURVE_LENGTH && (
+                <button
+                  onClick={() => setCurve([...editing.curve, editing.curve[editing.curve.length - 1]])}
+                  className="text-[10px] text-[#5B8DEF] hover:underline"
+                >
+                  + 再加一级
+                </button>
+              )}
+            </div>
+            <div className="flex items-center gap-1 flex-wrap">
+              <span className="text-[10px] font-bold text-slate-400 mr-1">排名</span>
+              {FOCUS_ORDERS.map(order => (
+                <button key={order} onClick={() => onUpdate(editing.id, { order })} aria-pressed={editing.order === order} className={chipClass(editing.order === order)}>
+                  {FOCUS_ORDER_LABELS[order]}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1 flex-wrap">
+              <span className="text-[10px] font-bold text-slate-400 mr-1">效果</span>
+              {FOCUS_EFFECTS.map(effect => (
+                <button key={effect} onClick={() => onUpdate(editing.id, { effect })} aria-pressed={editing.effect === effect} className={chipClass(editing.effect === effect)}>
+                  {FOCUS_EFFECT_LABELS[effect]}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => onDelete(editing.id)}
+              className="flex items-center gap-1 text-[10px] text-red-500 hover:text-red-600"
+            >
+              <Trash2 size={11} />
+              删除这个方案
+            </button>
+          </div>
+        ) : (
+          <p className="mt-2 text-[10px] text-slate-400">内置方案不可修改，新建一份即可调整曲线、排名方式和效果。</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface ListSnapshot {
+  id: string;
+  name: string;
+  tree: TreeItem[];
+}
+
+interface LimitsSettingsPanelProps {
+  limits: TreeLimits;
+  lists: ListSnapshot[];
+  onApply: (limits: TreeLimits) => void;
+  onClose: () => void;
+}
+
+const MAX_TRIM_SAMPLES = 2;
+
+const LimitStepper: FC<{ label: string; unit: string; value: number; range: { min: number; max: number }; onChange: (value: number) => void }> = ({
+  label, unit, value, range, onChange
+}) => (
+  <div className="flex items-center gap-2 text-[11px] text-slate-600">
+    <span className="flex-1">{label}</span>
+    <button
+      onClick={() => onChange(value - 1)}
+      disabled={value <= range.min}
+      className="p-1 rounded-full hover:bg-black/5 disabled:text-slate-300 disabled:hover:bg-transparent"
+      aria-label={`减少${label}`}
+    >
+      <Minus size={12} />
+    </button>
+    <span className="w-12 text-center font-bold tabular-nums text-slate-800">{value} {unit}</span>
+    <button
+      onClick={() => onChange(value + 1)}
+      disabled={value >= range.max}
+      className="p-1 rounded-full hover:bg-black/5 disabled:text-slate-300 disabled:hover:bg-transparent"
+      aria-label={`增加${label}`}
+    >
+      <Plus size={12} />
+    </button>
+  </div>
+);
+
+/** 调低上限时逐个清单预览会被上移、截断的数量，确认后才整理并保存。 */
+const LimitsSettingsPanel: FC<LimitsSettingsPanelProps> = ({ limits, lists, onApply, onClose }) => {
+  const [draft, setDraft] = useState<TreeLimits>(limits);
+  const affected = useMemo(
+    () => lists
+      .map(list => ({ ...list, ...fitTreeToLimits(list.tree, draft.maxDepth, draft.maxTitleLength) }))
+      .filter(list => list.truncated || list.flattened),
+    [lists, draft]
+  );
+  const trimSamples = useMemo(() => {
+    const samples: string[] = [];
+    const walk = (nodes: TreeItem[]) => nodes.forEach(node => {
+      const title = node.title.trim();
+      if (samples.length < MAX_TRIM_SAMPLES && title.length > draft.maxTitleLength) samples.push(title);
+      walk(node.children);
+    });
+    lists.forEach(list => walk(list.tree));
+    return samples;
+  }, [lists, draft.maxTitleLength]);
+  const unchanged = draft.maxDepth === limits.maxDepth && draft.maxTitleLength === limits.maxTitleLength;
+  const isDefault = draft.maxDepth === DEFAULT_TREE_LIMITS.maxDepth && draft.maxTitleLength === DEFAULT_TREE_LIMITS.maxTitleLength;
+
+  return (
+    <div className="fixed inset-0 z-[130] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-sm" onClick={onClose} />
+      <div role="dialog" aria-label="层级与字数" className="relative bg-white rounded-2xl p-4 shadow-2xl w-full max-h-full overflow-y-auto no-scrollbar animate-in fade-in zoom-in-95 duration-200 border border-slate-100">
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-sm font-bold text-slate-800">层级与字数</span>
+          <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:text-slate-700 hover:bg-black/5" title="关闭">
+            <X size={14} />
+          </button>
+        </div>
+        <p className="text-[10px] text-slate-400 mb-2">所有清单共用</p>
+
+        <div className="space-y-1">
+          <LimitStepper label="最多层级" unit="层" value={draft.maxDepth} range={DEPTH_LIMIT_RANGE} onChange={maxDepth => setDraft(prev => ({ ...prev, maxDepth }))} />
+          <LimitStepper label="标题字数" unit="字" value={draft.maxTitleLength} range={TITLE_LENGTH_RANGE} onChange={maxTitleLength => setDraft(prev => ({ ...prev, maxTitleLength }))} />
+        </div>
+        {!isDefault && (
+          <button onClick={() => setDraft(DEFAULT_TREE_LIMITS)} className="mt-1 text-[10px] text-[#5B8DEF] hover:underline">
+            恢复默认（{DEFAULT_TREE_LIMITS.maxDepth} 层、{DEFAULT_TREE_LIMITS.maxTitleLength} 字）
+          </button>
+        )}
+
+        {affected.length > 0 && (
+          <div className="mt-3 p-2 rounded-lg bg-amber-50 border border-amber-100 text-[10px] text-amber-800 space-y-1">
+            <div className="font-bold">保存前需要整理现有任务：</div>
+            <ul className="space-y-0.5">
+              {affected.map(list => (
+                <li key={list.id} className="flex gap-1">
+                  <span className="min-w-0 truncate">「{list.name}」</span>
+                  <span className="flex-shrink-0">
+                    {[list.flattened ? `${list.flattened} 项上移` : '', list.truncated ? `${list.truncated} 个标题截断` : ''].filter(Boolean).join('，')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {trimSamples.map(title => (
+              <div key={title} className="truncate text-amber-700/80" title={title}>
+                {title.slice(0, draft.maxTitleLength)}
+                <span className="line-through text-red-400">{title.slice(draft.maxTitleLength)}</span>
+              </div>
+            ))}
+            <p className="text-amber-700/70">超出层级的子任务按原顺序上移到允许的最深一层。整理后不能撤销，可先导出备份。</p>
+          </div>
+        )}
+
+        <div className="mt-3 flex justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-1.5 rounded-lg text-xs font-medium text-slate-600 hover:bg-slate-100">取消</button>
+          <button
+            onClick={() => onApply(draft)}
+            disabled={unchanged}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium text-white shadow-md disabled:opacity-40 disabled:shadow-none ${affected.length ? 'bg-amber-500 hover:bg-amber-600' : 'bg-slate-800 hover:bg-slate-900'}`}
+          >
+            {affected.length ? '整理并保存' : '保存'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface TemplatePanelProps {
+  /** 内置模板在前 */
+  templates: TaskTemplate[];
+  tree: TreeItem[];
+  defaultParentId: string | null;
+  maxDepth: number;
+  onApply: (template: TaskTemplate, parentId: string | null) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+/** 模板库：选好放在哪，点「套用」整棵建出来；预览里的占位符按今天展开。 */
+const TemplatePanel: FC<TemplatePanelProps> = ({ templates, tree, defaultParentId, maxDepth, onApply, onDelete, onClose }) => {
+  const [now] = useState(() => Date.now());
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  // 已经在最深一层的节点放不下子任务
+  const parents = useMemo(() => {
+    const result: { node: TreeItem; depth: number }[] = [];
+    const walk = (nodes: TreeItem[], depth: number) => nodes.forEach(node => {
+      result.push({ node, depth });
+      walk(node.children, depth + 1);
+    });
+    walk(tree, 0);
+    return result;
+  }, [tree]);
+  const [parentId, setParentId] = useState<string | null>(() =>
+    parents.some(({ node, depth }) => node.id === defaultParentId && depth < maxDepth - 1) ? defaultParentId : null
+  );
+
+  return (
+    <div className="fixed inset-0 z-[130] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-sm" onClick={onClose} />
+      <div role="dialog" aria-label="模板" className="relative bg-white rounded-2xl p-4 shadow-2xl w-full max-h-full flex flex-col animate-in fade-in zoom-in-95 duration-200 border border-slate-100">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-bold text-slate-800">从模板新建</span>
+          <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:text-slate-700 hover:bg-black/5" title="关闭">
+            <X size={14} />
+          </button>
+        </div>
+        <label className="flex items-center gap-2 mb-2 text-[11px] text-slate-500">
+          <span className="flex-shrink-0">放到</span>
+          <select
+            value={parentId ?? ''}
+            onChange={e => setParentId(e.target.value || null)}
+            className="flex-1 min-w-0 px-1.5 py-1 rounded-lg border border-slate-200 text-[11px] text-slate-700 outline-none focus:border-[#5B8DEF]"
+          >
+            <option value="">顶层末尾</option>
+            {parents.map(({ node, depth }) => (
+              <option key={node.id} value={node.id} disabled={depth >= maxDepth - 1}>
+                {'\u3000'.repeat(depth + 1)}{formatTitle(node.title, false)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <ul className="flex-1 min-h-0 overflow-y-auto no-scrollbar space-y-1.5">
+          {templates.map(template => {
+            const builtin = isBuiltinTemplate(template.id);
+            return (
+              <li key={template.id} className="group flex items-center gap-2 rounded-xl bg-slate-50 px-2.5 py-1.5">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-baseline gap-1.5">
+                    <span className="text-xs font-bold text-slate-700 truncate">{template.name}</span>
+                    <span className="flex-shrink-0 text-[10px] text-slate-400">{countTemplateItems(template.items)} 项{builtin ? ' · 内置' : ''}</span>
+                  </div>
+                  <div className="text-[10px] text-slate-400 truncate">
+                    {template.items.map(item => expandPlaceholders(item.title, now) || PLACEHOLDER_TITLE).join(' · ')}
+                  </div>
+                </div>
+                {!builtin && (
+                  confirmDeleteId === template.id ? (
+                    <button
+                      onClick={() => { onDelete(template.id); setConfirmDeleteId(null); }}
+                      className="flex-shrink-0 px-1.5 py-0.5 rounded-md text-[10px] font-bold text-red-500 hover:bg-red-50"
+                    >
+                      确认删除
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => setConfirmDeleteId(template.id)}
+                      className="flex-shrink-0 p-1 rounded-full text-slate-300 hover:text-red-500 hover:bg-red-50 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                      title="删除模板"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  )
+                )}
+                <button
+                  onClick={() => onApply(template, parentId)}
+                  className="flex-shrink-0 px-2 py-1 rounded-lg text-[11px] font-medium bg-slate-800 text-white hover:bg-slate-900"
+                >
+                  套用
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        <p className="mt-2 text-[10px] text-slate-400">
+          选中任务后在「⋯」里存为模板；标题里写 {TEMPLATE_PLACEHOLDERS.map(([token, label]) => `${token}（${label}）`).join('、')}，套用时自动换掉
+        </p>
+      </div>
+    </div>
+  );
+};
+
+interface SaveTemplateDialogProps {
+  source: TreeItem[];
+  onSave: (name: string) => void;
+  onClose: () => void;
+}
+
+const SaveTemplateDialog: FC<SaveTemplateDialogProps> = ({ source, onSave, onClose }) => {
+  const [name, setName] = useState(() => source[0].title.trim().slice(0, MAX_TEMPLATE_NAME_LENGTH));
+  const commit = () => { if (name.trim()) onSave(name); };
+
+  return (
+    <div className="fixed inset-0 z-[130] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-sm" onClick={onClose} />
+      <div role="dialog" aria-label="存为模板" className="relative bg-white rounded-2xl p-4 shadow-2xl max-w-[260px] w-full animate-in fade-in zoom-in-95 duration-200 border border-slate-100">
+        <div className="mb-1 text-slate-800 font-bold text-sm">存为模板</div>
+        <div className="mb-2 text-[11px] text-slate-400">
+          共 {countTemplateItems(source)} 项；截止日期和推迟不会存进去
+        </div>
+        <input
+          autoFocus
+          value={name}
+          maxLength={MAX_TEMPLATE_NAME_LENGTH}
+          placeholder="模板名称"
+          onChange={e => setName(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') commit();
+            if (e.key === 'Escape') onClose();
+          }}
+          aria-label="模板名称"
+          className="w-full mb-3 px-2 py-1 rounded-lg border border-slate-200 text-xs text-slate-700 outline-none focus:border-[#5B8DEF]"
+        />
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-1.5 rounded-lg text-xs font-medium text-slate-600 hover:bg-slate-100">取消</button>
+          <button
+            onClick={commit}
+            disabled={!name.trim()}
+            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-white hover:bg-slate-900 shadow-md disabled:bg-slate-300 disabled:shadow-none"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ActivityPanelProps {
+  log: ActivityEntry[];
+  listId: string;
+  listName: string;
+  tree: TreeItem[];
+  now: number;
+  onClose: () => void;
+}
+
+const ACTIVITY_CHART_DAYS = 14;
+const LONGEST_LIVED_LIMIT = 5;
+// 一次只渲染最近这么多条，更早的记录仍然保存，用于统计
+const ACTIVITY_LOG_VISIBLE = 200;
+
+const ACTIVITY_ICONS: Record<ActivityKind, ReactNode> = {
+  create: <Plus size={11} />,
+  rename: <Pencil size={11} />,
+  move: <CornerDownRight size={11} />,
+  complete: <Check size={11} className="text-emerald-500" />,
+  delete: <Trash2 size={11} className="text-red-400" />
+};
+
+const formatClock = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+const formatDayLabel = (day: number, today: number): string =>
+  day === today ? '今天' : day === addDays(today, -1) ? '昨天' : formatShortDate(day);
+
+/** 回顾：当前清单的统计与操作记录。柱状图用 div 的高度画，不引入图表库。 */
+const ActivityPanel: FC<ActivityPanelProps> = ({ log, listId, listName, tree, now, onClose }) => {
+  const [tab, setTab] = useState<'stats' | 'log'>('stats');
+  const today = startOfDay(now);
+  const listLog = useMemo(() => log.filter(entry => entry.listId === listId), [log, listId]);
+  const tallies = useMemo(() => tallyClearedByDay(listLog, listId, now, ACTIVITY_CHART_DAYS), [listLog, listId, now]);
+  const streaks = useMemo(() => getStreaks(listLog, listId, now), [listLog, listId, now]);
+  const longestLived = useMemo(() => getLongestLivedTasks(tree, log, LONGEST_LIVED_LIMIT), [tree, log]);
+  const averageDepth = useMemo(() => getAverageDepth(tree), [tree]);
+  const openCount = useMemo(() => collectIds(tree).size, [tree]);
+  const firstAt = getFirstActivityAt(listLog, listId);
+  const todayTally = tallies[tallies.length - 1];
+  const chartMax = Math.max(1, ...tallies.map(tally => tally.completed + tally.deleted));
+  const chartTotal = tallies.reduce((sum, tally) => sum + tally.completed + tally.deleted, 0);
+  // 最新的在前，按天分组
+  const groups = useMemo(() => {
+    const result: { day: number; entries: ActivityEntry[] }[] = [];
+    listLog.slice(-ACTIVITY_LOG_VISIBLE).reverse().forEach(entry => {
+      const day = startOfDay(entry.at);
+      const last = result[result.length - 1];
+      if (last?.day === day) last.entries.push(entry);
+      else result.push({ day, entries: [entry] });
+    });
+    return result;
+  }, [listLog]);
+
+  const tabClass = (active: boolean) =>
+    `px-2 py-0.5 rounded-md text-[11px] font-medium transition-colors ${active ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`;
+  const tiles: Array<[string, string, string?]> = [
+    ['今天清掉', String(todayTally.completed + todayTally.deleted)],
+    ['连续天数', String(streaks.current), streaks.longest > streaks.current ? `最长 ${streaks.longest}` : undefined],
+    ['平均层级', averageDepth === null ? '–' : averageDepth.toFixed(1)],
+    ['未完成', String(openCount)]
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[130] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-sm" onClick={onClose} />
+      <div role="dialog" aria-label="回顾与统计" className="relative bg-white rounded-2xl p-4 shadow-2xl w-full max-h-full flex flex-col animate-in fade-in zoom-in-95 duration-200 border border-slate-100">
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <span className="text-sm font-bold text-slate-800 truncate">回顾 · {listName}</span>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <div role="tablist" className="flex items-center p-0.5 rounded-lg bg-slate-100">
+              <button role="tab" aria-selected={tab === 'stats'} onClick={() => setTab('stats')} className={tabClass(tab === 'stats')}>统计</button>
+              <button role="tab" aria-selected={tab === 'log'} onClick={() => setTab('log')} className={tabClass(tab === 'log')}>记录</button>
+            </div>
+            <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:text-slate-700 hover:bg-black/5" title="关闭">
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+        {tab === 'stats' ? (
+          <div className="flex-1 min-h-0 overflow-y-auto no-scrollbar space-y-3">
+            <div className="grid grid-cols-4 gap-1.5">
+              {tiles.map(([label, value, hint]) => (
+                <div key={label} className="rounded-xl bg-slate-50 px-1.5 py-1.5 text-center">
+                  <div className="text-base font-bold text-slate-800 leading-5">{value}</div>
+                  <div className="text-[10px] text-slate-400">{label}</div>
+                  {hint && <div className="text-[9px] text-slate-300">{hint}</div>}
+                </div>
+              ))}
+            </div>
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-[11px] font-bold text-slate-500">近 {ACTIVITY_CHART_DAYS} 天清掉 {chartTotal} 项</span>
+                <span className="flex items-center gap-2 text-[10px] text-slate-400">
+                  <span className="flex items-center gap-0.5"><span className="w-2 h-2 rounded-sm bg-emerald-400" />完成</span>
+                  <span className="flex items-center gap-0.5"><span className="w-2 h-2 rounded-sm bg-slate-300" />删除</span>
+                </span>
+              </div>
+              <div className="flex items-end gap-[3px] h-16" role="img" aria-label={tallies.map(tally => `${formatShortDate(tally.day)} 完成 ${tally.completed} 删除 ${tally.deleted}`).join('，')}>
+                {tallies.map(tally => (
+                  <div
+                    key={tally.day}
+                    className="flex-1 h-full flex flex-col justify-end rounded-sm bg-slate-50 overflow-hidden"
+                    title={`${formatDayLabel(tally.day, today)}：完成 ${tally.completed}，删除 ${tally.deleted}`}
+                  >
+                    <div className="bg-slate-300" style={{ height: `${(tally.deleted / chartMax) * 100}%` }} />
+                    <div className="bg-emerald-400" style={{ height: `${(tally.completed / chartMax) * 100}%` }} />
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-[3px] mt-0.5">
+                {tallies.map(tally => (
+                  <span key={tally.day} className={`flex-1 text-center text-[9px] ${tally.day === today ? 'font-bold text-slate-600' : 'text-slate-300'}`}>
+                    {new Date(tally.day).getDate()}
+                  </span>
+                ))}
+              </div>
+            </div>
+            <div>
+              <div className="text-[11px] font-bold text-slate-500 mb-1">放得最久的任务</div>
+              {longestLived.length ? (
+                <ul className="space-y-0.5">
+                  {longestLived.map(({ item, createdAt }) => {
+                    const days = Math.round((today - startOfDay(createdAt)) / DAY_MS);
+                    return (
+                      <li key={item.id} className="flex items-center gap-2 text-[11px] text-slate-600">
+                        <span className="flex-1 min-w-0 truncate">{formatTitle(item.title, false)}</span>
+                        <span className="flex-shrink-0 text-[10px] text-slate-400">{days ? `${days} 天` : '今天新建'}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              ) : (
+                <p className="text-[10px] text-slate-400">还没有记录到新建的任务</p>
+              )}
+            </div>
+            <p className="text-[10px] text-slate-400">
+              {firstAt === null ? '从现在开始记录新建、改名、移动、完成和删除' : `从 ${formatShortDate(firstAt)} 开始记录；之前建的任务不知道放了多久`}
+            </p>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 overflow-y-auto no-scrollbar">
+            {groups.length ? groups.map(group => (
+              <div key={group.day} className="mb-2">
+                <div className="sticky top-0 bg-white text-[10px] font-bold text-slate-400 py-0.5">{formatDayLabel(group.day, today)}</div>
+                <ul className="space-y-0.5">
+                  {group.entries.map((entry, i) => (
+                    <li key={`${entry.at}-${entry.itemId}-${i}`} className="flex items-center gap-1.5 text-[11px] text-slate-600">
+                      <span className="flex-shrink-0 text-slate-400">{ACTIVITY_ICONS[entry.kind]}</span>
+                      <span className="flex-1 min-w-0 truncate" title={describeActivity(entry)}>{describeActivity(entry)}</span>
+                      <span className="flex-shrink-0 text-[10px] text-slate-300 tabular-nums">{formatClock(entry.at)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )) : (
+              <p className="py-6 text-center text-[11px] text-slate-400">还没有记录，动手改点什么吧</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface MoveTargetPickerProps {
+  tree: TreeItem[];
+  selectionIds: Set<string>;
+  maxDepth: number;
+  onPick: (parentId: string | null) => void;
+  onClose: () => void;
+}
+
+/** 多选后「移到…」：列出整棵树（含收起的分支），放不下或落在所选子树里的节点不可选。 */
+const MoveTargetPicker: FC<MoveTargetPickerProps> = ({ tree, selectionIds, maxDepth, onPick, onClose }) => {
+  const rows = useMemo(() => {
+    const result: { node: TreeItem; depth: number; allowed: boolean }[] = [];
+    const walk = (nodes: TreeItem[], depth: number) => nodes.forEach(node => {
+      result.push({ node, depth, allowed: canPlaceNodes(tree, selectionIds, node.id, 'inside', maxDepth) });
+      walk(node.children, depth + 1);
+    });
+    walk(tree, 0);
+    return result;
+  }, [tree, selectionIds, maxDepth]);
+
+  return (
+    <div className="fixed inset-0 z-[130] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-sm" onClick={onClose} />
+      <div role="dialog" aria-label="移到" className="relative bg-white rounded-2xl p-4 shadow-2xl w-full max-h-full flex flex-col animate-in fade-in zoom-in-95 duration-200 border border-slate-100">
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-sm font-bold text-slate-800">把 {selectionIds.size} 项移到…</span>
+          <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:text-slate-700 hover:bg-black/5" title="关闭">
+            <X size={14} />
+          </button>
+        </div>
+        <p className="text-[10px] text-slate-400 mb-2">放在所选任务的子任务末尾；灰色的放不下</p>
+        <ul className="flex-1 min-h-0 overflow-y-auto no-scrollbar space-y-0.5">
+          <li>
+            <button
+              onClick={() => onPick(null)}
+              className="w-full text-left px-2 py-1 rounded-lg text-xs font-bold text-slate-700 hover:bg-[#5B8DEF]/10"
+            >
+              顶层
+            </button>
+          </li>
+          {rows.map(({ node, depth, allowed }) => (
+            <li key={node.id}>
+              <button
+                onClick={() => onPick(node.id)}
+                disabled={!allowed}
+                style={{ paddingLeft: `${0.5 + (depth + 1) * 0.75}rem` }}
+                className="w-full text-left pr-2 py-1 rounded-lg text-xs text-slate-600 truncate hover:bg-[#5B8DEF]/10 disabled:text-slate-300 disabled:hover:bg-transparent"
+                title={node.title.trim() || PLACEHOLDER_TITLE}
+              >
+                {formatTitle(node.title, false)}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+interface SchedulePopoverProps {
+  anchorEl: HTMLElement;
+  item: TreeItem;
+  now: number;
+  onSetDue: (dueAt: number | null) => void;
+  onSnooze: (until: number | null) => void;
+  onSetRepeat: (rule: RepeatRule | null) => void;
+}
+
+/** 节点操作按钮弹出的浮层：右对齐按钮，下方放不下时翻到按钮上方，随滚动跟随。 */
+const useAnchoredPosition = (anchorEl: HTMLElement, width: number, height: number) => {
+  const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
+
+  useLayoutEffect(() => {
+    const updatePosition = () => {
+      const rect = anchorEl.getBoundingClientRect();
+      // 弹窗只有 350 × 450，下方放不下时翻到按钮上方
+      const below = rect.bottom + 6 + height <= window.innerHeight;
+      setPosition({
+        top: below ? rect.bottom + 6 : rect.top - 6 - height,
+        left: Math.max(8, Math.min(rect.right - width, window.innerWidth - width - 8))
+      });
+    };
+    updatePosition();
+    window.addEventListener('scroll', updatePosition, true);
+    window.addEventListener('resize', updatePosition);
+    return () => {
+      window.removeEventListener('scroll', updatePosition, true);
+      window.removeEventListener('resize', updatePosition);
+    };
+  }, [anchorEl, width, height]);
+
+  return position;
+};
+
+const SCHEDULE_POPOVER_WIDTH = 200;
+const SCHEDULE_POPOVER_HEIGHT = 230;
+const DEFAULT_REPEAT_INTERVAL = 3;
+
+const SchedulePopover: FC<SchedulePopoverProps> = ({ anchorEl, item, now, onSetDue, onSnooze, onSetRepeat }) => {
+  const position = useAnchoredPosition(anchorEl, SCHEDULE_POPOVER_WIDTH, SCHEDULE_POPOVER_HEIGHT);
+
+  if (!position || typeof document === 'undefined') return null;
+  const today = startOfDay(now);
+  const chip = (active: boolean) =>
+    `px-2 py-0.5 rounded-full text-[10px] font-medium transition-colors ${active ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`;
+  const dateInputClass = 'flex-1 min-w-0 text-[10px] px-1 py-0.5 rounded-md bg-slate-50 border border-slate-200 text-slate-600 outline-none focus:border-[#5B8DEF]/40';
+  const snoozed = isSnoozed(item, now);
+  const repeat = item.repeat;
+
+  return createPortal(
+    <div
+      className="schedule-popover fixed bg-white rounded-xl shadow-xl border border-slate-100 p-2.5 text-slate-700 space-y-2 animate-in fade-in duration-150"
+      style={{ top: position.top, left: position.left, width: SCHEDULE_POPOVER_WIDTH, minHeight: SCHEDULE_POPOVER_HEIGHT, zIndex: 1000 }}
+      onClick={e => e.stopPropagation()}
+    >
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-[11px] font-bold text-slate-500">截止日期</span>
+          {item.dueAt !== undefined && (
+            <button onClick={() => onSetDue(null)} className="text-[10px] text-slate-400 hover:text-red-500">清除</button>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => onSetDue(today)} className={chip(item.dueAt === today)}>今天</button>
+          <button onClick={() => onSetDue(addDays(today, 1))} className={chip(item.dueAt === addDays(today, 1))}>明天</button>
+          <input
+            type="date"
+            aria-label="截止日期"
+            value={item.dueAt !== undefined ? toDateInputValue(item.dueAt) : ''}
+            onChange={e => onSetDue(fromDateInputValue(e.target.value))}
+            className={dateInputClass}
+          />
+        </div>
+      </div>
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-[11px] font-bold text-slate-500">推迟到</span>
+          {snoozed && (
+            <button onClick={() => onSnooze(null)} className="text-[10px] text-slate-400 hover:text-[#5B8DEF]">取消推迟</button>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => onSnooze(addDays(today, 1))} className={chip(snoozed && item.snoozeUntil === addDays(today, 1))}>明天</button>
+          <button onClick={() => onSnooze(nextMonday(today))} className={chip(snoozed && item.snoozeUntil === nextMonday(today))}>下周一</button>
+          <input
+            type="date"
+            aria-label="推迟到"
+            min={toDateInputValue(addDays(today, 1))}
+            value={snoozed ? toDateInputValue(item.snoozeUntil!) : ''}
+            onChange={e => {
+              const until = fromDateInputValue(e.target.value);
+              if (until !== null && until > now) onSnooze(until);
+            }}
+            className={dateInputClass}
+          />
+        </div>
+        <p className="mt-1 text-[10px] text-slate-400">推迟期间排到同级末尾，到期自动回到最前</p>
+      </div>
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-[11px] font-bold text-slate-500">重复</span>
+          {repeat && (
+            <button onClick={() => onSetRepeat(null)} className="text-[10px] text-slate-400 hover:text-red-500">不重复</button>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => onSetRepeat({ kind: 'daily' })} className={chip(repeat?.kind === 'daily')}>每天</button>
+          <button onClick={() => onSetRepeat({ kind: 'weekdays' })} className={chip(repeat?.kind === 'weekdays')}>工作日</button>
+          <button
+            onClick={() => { if (repeat?.kind !== 'weekly') onSetRepeat({ kind: 'weekly', days: [new Date(now).getDay()] }); }}
+            className={chip(repeat?.kind === 'weekly')}
+          >
+            每周
+          </button>
+          <button
+            onClick={() => { if (repeat?.kind !== 'interval') onSetRepeat({ kind: 'interval', every: DEFAULT_REPEAT_INTERVAL }); }}
+            className={chip(repeat?.kind === 'interval')}
+          >
+            隔几天
+          </button>
+        </div>
+        {repeat?.kind === 'weekly' && (
+          <div className="flex items-center gap-0.5 mt-1">
+            {WEEKDAY_ORDER.map(day => {
+              const active = repeat.days.includes(day);
+              // 至少保留一天
+              const toggle = () => {
+                const days = active ? repeat.days.filter(d => d !== day) : [...repeat.days, day];
+                if (days.length) onSetRepeat({ kind: 'weekly', days: WEEKDAY_ORDER.filter(d => days.includes(d)) });
+              };
+              return (
+                <button
+                  key={day}
+                  onClick={toggle}
+                  aria-pressed={active}
+                  aria-label={`周${getWeekdayName(day)}`}
+                  className={`w-5 h-5 rounded-full text-[10px] font-medium transition-colors ${active ? 'bg-[#5B8DEF] text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                >
+                  {getWeekdayName(day)}
+                </button>
+              );
+            })}
+          </div>
+        )}
+        {repeat?.kind === 'interval' && (
+          <label className="flex items-center gap-1 mt-1 text-[10px] text-slate-500">
+            每隔
+            <input
+              key={item.id}
+              type="number"
+              min={REPEAT_INTERVAL_RANGE.min}
+              max={REPEAT_INTERVAL_RANGE.max}
+              defaultValue={repeat.every}
+              onChange={e => {
+                const every = Number(e.target.value);
+                if (Number.isInteger(every) && every >= REPEAT_INTERVAL_RANGE.min && every <= REPEAT_INTERVAL_RANGE.max) onSetRepeat({ kind: 'interval', every });
+              }}
+              className="w-12 text-[10px] px-1 py-0.5 rounded-md bg-slate-50 border border-slate-200 text-slate-600 outline-none focus:border-[#5B8DEF]/40"
+            />
+            天
+          </label>
+        )}
+        <p className="mt-1 text-[10px] text-slate-400">完成或删除后，到日子在原处再出现一份</p>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+interface TagPopoverProps {
+  anchorEl: HTMLElement;
+  tags: string[];
+  /** 当前清单里已有的标签，方便直接点选 */
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+}
+
+const TAG_POPOVER_WIDTH = 200;
+const TAG_POPOVER_HEIGHT = 120;
+
+const TagPopover: FC<TagPopoverProps> = ({ anchorEl, tags, suggestions, onChange }) => {
+  const position = useAnchoredPosition(anchorEl, TAG_POPOVER_WIDTH, TAG_POPOVER_HEIGHT);
+  const [draft, setDraft] = useState('');
+
+  if (!position || typeof document === 'undefined') return null;
+  const candidates = Array.from(new Set([...tags, ...suggestions]));
+  const full = tags.length >= MAX_TAGS_PER_NODE;
+  const commitDraft = () => {
+    const tag = normalizeTag(draft);
+    if (tag && !full) onChange([...tags, tag]);
+    setDraft('');
+  };
+
+  return createPortal(
+    <div
+      className="tag-popover fixed bg-white rounded-xl shadow-xl border border-slate-100 p-2.5 text-slate-700 space-y-2 animate-in fade-in duration-150"
+      style={{ top: position.top, left: position.left, width: TAG_POPOVER_WIDTH, minHeight: TAG_POPOVER_HEIGHT, zIndex: 1000 }}
+      onClick={e => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-[11px] font-bold text-slate-500">标签</span>
+        <span className="text-[10px] text-slate-400">{tags.length} / {MAX_TAGS_PER_NODE}</span>
+      </div>
+      {candidates.length > 0 && (
+        <div className="flex flex-wrap gap-1 max-h-16 overflow-y-auto no-scrollbar">
+          {candidates.map(tag => {
+            const active = tags.includes(tag);
+            return (
+              <button
+                key={tag}
+                onClick={() => onChange(active ? tags.filter(t => t !== tag) : [...tags, tag])}
+                disabled={!active && full}
+                aria-pressed={active}
+                className={`px-1.5 rounded-full text-[10px] leading-4 transition-opacity ${active ? getTagColor(tag) : 'bg-slate-100 text-slate-500 hover:bg-slate-200'} disabled:opacity-40`}
+              >
+                #{tag}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      <input
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            commitDraft();
+          }
+        }}
+        maxLength={MAX_TAG_LENGTH + 1}
+        disabled={full}
+        placeholder={full ? '标签已满' : '新标签，回车添加'}
+        aria-label="新标签"
+        className="w-full text-[10px] px-1.5 py-1 rounded-md bg-slate-50 border border-slate-200 text-slate-600 outline-none focus:border-[#5B8DEF]/40 disabled:opacity-50"
+      />
+    </div>,
+    document.body
+  );
+};
+
+interface TagFilterBarProps {
+  tags: string[];
+  selected: string[];
+  onToggle: (tag: string) => void;
+  onClose: () => void;
+}
+
+const TagFilterBar: FC<TagFilterBarProps> = ({ tags, selected, onToggle, onClose }) => (
+  <div className="flex-shrink-0 mx-4 mb-1 flex items-center gap-1.5 rounded-full bg-white/60 border border-white/60 shadow-sm pl-2.5 pr-1 py-1">
+    <Tag size={12} className="flex-shrink-0 text-slate-400" />
+    <div className="flex-1 min-w-0 flex items-center gap-1 overflow-x-auto no-scrollbar" role="group" aria-label="按标签筛选">
+      {tags.length === 0 ? (
+        <span className="text-[10px] text-slate-400 whitespace-nowrap">还没有标签，重命名时输入 #标签 即可添加</span>
+      ) : (
+        // 已选的标签不在当前清单里时也列出来，方便取消
+        Array.from(new Set([...selected, ...tags])).map(tag => {
+          const active = selected.includes(tag);
+          return (
+            <button
+              key={tag}
+              onClick={() => onToggle(tag)}
+              aria-pressed={active}
+              className={`flex-shrink-0 px-1.5 rounded-full text-[10px] leading-4 transition-colors ${active ? getTagColor(tag) : 'text-slate-400 hover:bg-slate-100'}`}
+            >
+              #{tag}
+            </button>
+          );
+        })
+      )}
+    </div>
+    <button onClick={onClose} className="flex-shrink-0 p-0.5 rounded-full text-slate-400 hover:text-slate-700 hover:bg-black/5" title="关闭筛选">
+      <X size={12} />
+    </button>
+  </div>
+);
+
+interface NotePanelProps {
+  note: string;
+  editing: boolean;
+  onEdit: () => void;
+  onSave: (note: string) => void;
+  onCancel: () => void;
+}
+
+const NotePanel: FC<NotePanelProps> = ({ note, editing, onEdit, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(note);
+  const cancelledRef = useRef(false);
+
+  useEffect(() => {
+    if (editing) {
+      setDraft(note);
+      cancelledRef.current = false;
+    }
+  }, [editing, note]);
+
+  return (
+    <div
+      className="ml-7 mr-1 mt-1.5 rounded-xl bg-white/60 border border-white/70 shadow-sm px-3 py-2 text-[11px] leading-relaxed text-slate-600 animate-in fade-in duration-150"
+    >
+      {editing ? (
+        <>
+          <textarea
+            autoFocus
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onBlur={() => { if (!cancelledRef.current) onSave(draft); }}
+            onKeyDown={e => {
+              if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                e.preventDefault();
+                onSave(draft);
+              } else if (e.key === 'Escape') {
+                e.preventDefault();
+                cancelledRef.current = true;
+                onCancel();
+              }
+            }}
+            maxLength={MAX_NOTE_LENGTH}
+            rows={4}
+            placeholder="支持 Markdown：链接、列表、**粗体**、`代码`"
+            aria-label="备注"
+            className="w-full bg-transparent outline-none resize-y text-[11px] text-slate-700 placeholder:text-slate-400"
+          />
+          <div className="flex items-center justify-between text-[10px] text-slate-400">
+            <span>Ctrl+Enter 保存 · Esc 取消</span>
+            <span className="tabular-nums">{draft.length} / {MAX_NOTE_LENGTH}</span>
+          </div>
+        </>
+      ) : (
+        <div className="group/note relative">
+          <MarkdownNote source={note} />
+          <button
+            onClick={onEdit}
+            className="absolute -top-1 -right-1.5 p-1 rounded-full text-slate-400 opacity-0 group-hover/note:opacity-100 hover:text-slate-700 hover:bg-black/5 transition-opacity"
+            title="编辑备注（N）"
+          >
+            <Pencil size={11} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
 };
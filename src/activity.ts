@@ -0,0 +1,296 @@
+/**
+ * activity.ts
+ * ---------------------------------------------------------------------------
+ * 操作记录与回顾统计：新建、改名、移动、完成、删除各记一条，统计面板据此算出每天清掉多少、连续天数等。
+ *
+ * [约定]
+ * 1. 记录由相邻两份快照比对得出，与撤销历史同一个入口：算作一步的修改才记录，
+ *    撤销/重做、其它弹窗或设备同步来的变化、推迟到期这类时间推移都不记。
+ *    不进撤销历史的新建（到期放回的例行任务、后台从右键菜单和地址栏收进来的）由加入处直接记，
+ *    同一个节点的新建只记一次，弹窗和后台都放回同一份例行任务时不会重复。
+ * 2. 整棵子树一起新建、完成或删除时只记最上面的节点，count 为连同子任务的总数；
+ *    同级里调整顺序时只记真正挪动的那几项（保持相对顺序最多的其余节点视为没动）。
+ * 3. 新建的节点先以空标题出现：第一次起名并入那条新建记录，没起名就删掉时两条一起抹去。
+ * 4. 剪切记为 cut 的删除，不算清掉；之后粘贴出同一批节点时，那条剪切改记为一次移动，
+ *    粘贴出的节点换了新 id，sources 记下新旧 id 的对应，放了多久照旧从原来新建的时候算。
+ * 5. 记录只存本机，最多保留 MAX_ACTIVITY_ENTRIES 条，按时间从旧到新排列。
+ */
+
+import { PLACEHOLDER_TITLE } from './tree';
+import type { CompletedEntry, TreeItem } from './tree';
+import { addDays, startOfDay } from './schedule';
+
+export type ActivityKind = 'create' | 'rename' | 'move' | 'complete' | 'delete';
+export const ACTIVITY_KINDS: ActivityKind[] = ['create', 'rename', 'move', 'complete', 'delete'];
+
+export interface ActivityEntry {
+  kind: ActivityKind;
+  at: number;
+  listId: string;
+  itemId: string;
+  title: string;
+  /** 改名前的标题 */
+  from?: string;
+  /** 移到了哪里：「父任务」下、顶层或另一个清单；同级内调整顺序时没有 */
+  to?: string;
+  /** 连同子任务的总数，只有一项时省略 */
+  count?: number;
+  /** 剪切走的删除，等着粘贴成一次移动 */
+  cut?: boolean;
+  /** 剪切后粘贴出的移动：新 id → 剪切前的 id */
+  sources?: Record<string, string>;
+}
+
+/** 只看快照看不出来、由操作方顺带告知的信息。 */
+export interface ActivityHint {
+  /** 这一步是剪切，被移出的是这些节点 */
+  cutIds?: Set<string>;
+  /** 这一步是粘贴，新 id → 剪贴板里的 id */
+  sourceIds?: Map<string, string>;
+}
+
+export const MAX_ACTIVITY_ENTRIES = 1000;
+
+interface Snapshot {
+  data: TreeItem[];
+  archive: CompletedEntry[];
+}
+
+interface NodeInfo {
+  node: TreeItem;
+  parentId: string | null;
+  index: number;
+}
+
+const displayTitle = (title: string): string => title.trim() || PLACEHOLDER_TITLE;
+
+export const formatMoveTarget = (parent: TreeItem | null): string => (parent ? `「${displayTitle(parent.title)}」下` : '顶层');
+
+const indexTree = (nodes: TreeItem[], parentId: string | null = null, out = new Map<string, NodeInfo>()): Map<string, NodeInfo> => {
+  nodes.forEach((node, index) => {
+    out.set(node.id, { node, parentId, index });
+    indexTree(node.children, node.id, out);
+  });
+  return out;
+};
+
+const countSubtree = (node: TreeItem): number => node.children.reduce((sum, child) => sum + countSubtree(child), 1);
+
+const withCount = (node: TreeItem): { count?: number } => {
+  const count = countSubtree(node);
+  return count > 1 ? { count } : {};
+};
+
+/** 最长递增子序列所在的下标；同级节点数很少，直接 O(n²)。 */
+const longestIncreasing = (ranks: number[]): Set<number> => {
+  const length = ranks.map(() => 1);
+  const previous = ranks.map(() => -1);
+  let best = -1;
+  ranks.forEach((rank, i) => {
+    for (let j = 0; j < i; j++) {
+      if (ranks[j] < rank && length[j] + 1 > length[i]) {
+        length[i] = length[j] + 1;
+        previous[i] = j;
+      }
+    }
+    if (best === -1 || length[i] > length[best]) best = i;
+  });
+  const kept = new Set<number>();
+  for (let i = best; i !== -1; i = previous[i]) kept.add(i);
+  return kept;
+};
+
+/** 比较一步修改前后的快照，得出这一步的操作记录。 */
+export const diffActivity = (before: Snapshot, after: Snapshot, listId: string, at: number, hint: ActivityHint = {}): ActivityEntry[] => {
+  const prev = indexTree(before.data);
+  const next = indexTree(after.data);
+  const oldEntries = new Set(before.archive);
+  const newEntries = new Set(after.archive);
+  const completedIds = new Set(after.archive.filter(entry => !oldEntries.has(entry)).map(entry => entry.item.id));
+  // 从归档恢复回来的节点不算新建
+  const restoredIds = new Set(before.archive.filter(entry => !newEntries.has(entry)).map(entry => entry.item.id));
+  const entries: ActivityEntry[] = [];
+  const push = (kind: ActivityKind, node: TreeItem, extra: Partial<ActivityEntry> = {}) => {
+    entries.push({ kind, at, listId, itemId: node.id, title: node.title.trim(), ...extra });
+  };
+
+  prev.forEach(({ node, parentId }, id) => {
+    if (next.has(id) || (parentId !== null && !next.has(parentId))) return;
+    if (completedIds.has(id)) push('complete', node, withCount(node));
+    else push('delete', node, { ...withCount(node), ...(hint.cutIds?.has(id) ? { cut: true } : {}) });
+  });
+
+  const collectSources = (node: TreeItem, out: Record<string, string> = {}): Record<string, string> => {
+    const source = hint.sourceIds?.get(node.id);
+    if (source) out[node.id] = source;
+    node.children.forEach(child => collectSources(child, out));
+    return out;
+  };
+
+  const siblings = new Map<string | null, string[]>();
+  next.forEach(({ node, parentId }, id) => {
+    const old = prev.get(id);
+    if (!old) {
+      if (restoredIds.has(id) || (parentId !== null && !prev.has(parentId))) return;
+      // 粘贴出的节点先按新建记下来源，追加时若找得到对应的剪切就改记为移动
+      const pasted = hint.sourceIds?.has(id)
+        ? { sources: collectSources(node), to: formatMoveTarget(parentId ? next.get(parentId)!.node : null) }
+        : {};
+      push('create', node, { ...withCount(node), ...pasted });
+      return;
+    }
+    if (old.node.title.trim() !== node.title.trim()) push('rename', node, { from: old.node.title.trim() });
+    if (old.parentId !== parentId) {
+      push('move', node, { to: formatMoveTarget(parentId ? next.get(parentId)!.node : null) });
+    } else if (old.node.snoozeUntil === node.snoozeUntil) {
+      // 推迟与取消推迟会自动挪到同级首尾，不算手动调整顺序
+      siblings.set(parentId, [...(siblings.get(parentId) ?? []), id]);
+    }
+  });
+
+  siblings.forEach(ids => {
+    if (ids.length < 2) return;
+    const kept = longestIncreasing(ids.map(id => prev.get(id)!.index));
+    ids.forEach((id, i) => {
+      if (!kept.has(i)) push('move', next.get(id)!.node);
+    });
+  });
+  return entries;
+};
+
+/** 不经过撤销历史直接加入树的节点，记为新建。 */
+export const recordCreated = (nodes: TreeItem[], listId: string, at: number): ActivityEntry[] =>
+  nodes.map(node => ({ kind: 'create', at, listId, itemId: node.id, title: node.title.trim(), ...withCount(node) }));
+
+const findLastIndex = (log: ActivityEntry[], predicate: (entry: ActivityEntry) => boolean): number => {
+  for (let i = log.length - 1; i >= 0; i--) {
+    if (predicate(log[i])) return i;
+  }
+  return -1;
+};
+
+export const appendActivity = (log: ActivityEntry[], added: ActivityEntry[]): ActivityEntry[] => {
+  if (!added.length) return log;
+  const next = [...log];
+  added.forEach(entry => {
+    if (entry.kind === 'create' && entry.sources) {
+      const { sources, to, ...created } = entry;
+      const cutIndex = findLastIndex(next, e => e.kind === 'delete' && !!e.cut && e.itemId === sources[entry.itemId]);
+      if (cutIndex === -1) {
+        next.push(created);
+      } else {
+        next.splice(cutIndex, 1);
+        next.push({ ...created, kind: 'move', to, sources });
+      }
+      return;
+    }
+    if (entry.kind === 'create' && next.some(e => e.kind === 'create' && e.itemId === entry.itemId && e.listId === entry.listId)) return;
+    const unnamed = (entry.kind === 'rename' && !entry.from) || (entry.kind === 'delete' && !entry.title);
+    const createIndex = unnamed
+      ? findLastIndex(next, e => e.itemId === entry.itemId && e.listId === entry.listId && e.kind === 'create' && !e.title)
+      : -1;
+    if (createIndex === -1) next.push(entry);
+    else if (entry.kind === 'rename') next[createIndex] = { ...next[createIndex], title: entry.title };
+    else next.splice(createIndex, 1);
+  });
+  return next.slice(-MAX_ACTIVITY_ENTRIES);
+};
+
+export const describeActivity = (entry: ActivityEntry): string => {
+  const title = `「${displayTitle(entry.title)}」`;
+  const more = entry.count ? `（共 ${entry.count} 项）` : '';
+  switch (entry.kind) {
+    case 'create': return `新建${title}${more}`;
+    case 'rename': return `「${displayTitle(entry.from ?? '')}」改名为${title}`;
+    case 'move': return entry.to ? `把${title}移到${entry.to}` : `调整了${title}的顺序`;
+    case 'complete': return `完成${title}${more}`;
+    case 'delete': return `${entry.cut ? '剪切' : '删除'}${title}${more}`;
+  }
+};
+
+// --- 统计 ---
+export interface DayTally {
+  /** 当天 0 点 */
+  day: number;
+  completed: number;
+  deleted: number;
+}
+
+// 剪切只是移动的前一半，不算清掉
+const isCleared = (entry: ActivityEntry): boolean => entry.kind === 'complete' || (entry.kind === 'delete' && !entry.cut);
+
+/** 最近 days 天（含今天）每天完成与删除的次数，从旧到新。 */
+export const tallyClearedByDay = (log: ActivityEntry[], listId: string, now: number, days: number): DayTally[] => {
+  const today = startOfDay(now);
+  const tallies = Array.from({ length: days }, (_, i): DayTally => ({ day: addDays(today, i - days + 1), completed: 0, deleted: 0 }));
+  const byDay = new Map(tallies.map(tally => [tally.day, tally]));
+  log.forEach(entry => {
+    if (entry.listId !== listId || !isCleared(entry)) return;
+    const tally = byDay.get(startOfDay(entry.at));
+    if (!tally) return;
+    if (entry.kind === 'complete') tally.completed++;
+    else tally.deleted++;
+  });
+  return tallies;
+};
+
+/** 连续有清掉任务的天数；今天还没动手时从昨天往回数，不算断。 */
+export const getStreaks = (log: ActivityEntry[], listId: string, now: number): { current: number; longest: number } => {
+  const days = new Set(log.filter(entry => entry.listId === listId && isCleared(entry)).map(entry => startOfDay(entry.at)));
+  const today = startOfDay(now);
+  let current = 0;
+  for (let day = days.has(today) ? today : addDays(today, -1); days.has(day); day = addDays(day, -1)) current++;
+  let longest = 0;
+  let run = 0;
+  let last: number | null = null;
+  Array.from(days).sort((a, b) => a - b).forEach(day => {
+    run = last !== null && addDays(last, 1) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    last = day;
+  });
+  return { current, longest };
+};
+
+/** 树中全部未完成任务的平均层级（顶层为第 1 层），空树返回 null。 */
+export const getAverageDepth = (tree: TreeItem[]): number | null => {
+  let total = 0;
+  let count = 0;
+  const walk = (nodes: TreeItem[], depth: number) => {
+    nodes.forEach(node => {
+      total += depth;
+      count++;
+      walk(node.children, depth + 1);
+    });
+  };
+  walk(tree, 1);
+  return count ? total / count : null;
+};
+
+export interface OpenTaskAge {
+  item: TreeItem;
+  createdAt: number;
+}
+
+/**
+ * 放得最久的未完成任务；只认得开始记录之后新建的节点。
+ * 不限清单：移到别的清单、剪切后粘贴的节点仍按最初新建的时间算。
+ */
+export const getLongestLivedTasks = (tree: TreeItem[], log: ActivityEntry[], limit: number): OpenTaskAge[] => {
+  const createdAt = new Map<string, number>();
+  log.forEach(entry => {
+    if (entry.kind === 'create' && !createdAt.has(entry.itemId)) createdAt.set(entry.itemId, entry.at);
+    Object.entries(entry.sources ?? {}).forEach(([id, source]) => {
+      const at = createdAt.get(source);
+      if (at !== undefined && !createdAt.has(id)) createdAt.set(id, at);
+    });
+  });
+  const found: OpenTaskAge[] = [];
+  indexTree(tree).forEach(({ node }, id) => {
+    const at = createdAt.get(id);
+    if (at !== undefined) found.push({ item: node, createdAt: at });
+  });
+  return found.sort((a, b) => a.createdAt - b.createdAt).slice(0, limit);
+};
+
+export const getFirstActivityAt = (log: ActivityEntry[], listId: string): number | null =>
+  log.find(entry => entry.listId === listId)?.at ?? null;
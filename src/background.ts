@@ -0,0 +1,261 @@
+/**
+ * background.ts
+ * ---------------------------------------------------------------------------
+ * MV3 后台 service worker，弹窗关闭时也能工作。
+ *
+ * [职责]
+ * 1. 图标角标：当前清单里没有被推迟的顶层任务数。
+ * 2. 提醒：chrome.alarms 定时检查所有清单。今天到期或已逾期的任务每天提醒一次；
+ *    推迟到期的任务在这里就地唤醒（回到同级最前面）并提醒；到日子的例行任务放回原处并提醒。
+ * 3. 右键菜单「加入 Plan P」：把网页、链接或选中的文字收进当前清单。
+ * 4. 全局快捷键打开弹窗并直接新建；地址栏 `pp 买牛奶 #生活` 不打开界面直接加入。
+ * 5. 在这里加进树的节点（例行任务、右键菜单与地址栏收集）直接记进操作记录（见 activity.ts）。
+ *
+ * 树结构、存储与日期逻辑都复用弹窗的模块，这里只负责调度。
+ */
+
+import { storage } from './storage';
+import {
+  ACTIVITY_SCHEMA,
+  DEFAULT_SETTINGS,
+  LISTS_SCHEMA,
+  REPEATS_SCHEMA,
+  SETTINGS_SCHEMA,
+  createDefaultListsIndex,
+  listIdFromTreeKey,
+  listTreeSchema,
+  loadDocument,
+  saveDocument
+} from './schema';
+import type { ListsIndex } from './schema';
+import { getDueStatus, isSnoozed, startOfDay, wakeSnoozedNodes } from './schedule';
+import {
+  CAPTURE_MENU_ID,
+  QUICK_ADD_COMMAND,
+  appendCapturedPage,
+  appendQuickEntry,
+  cancelQuickAddRequest,
+  isCapturableUrl,
+  requestQuickAdd
+} from './capture';
+import type { AppendResult, CapturedPage } from './capture';
+import { materializeRepeats } from './recurrence';
+import { appendActivity, recordCreated } from './activity';
+import type { ActivityEntry } from './activity';
+import { PLACEHOLDER_TITLE } from './tree';
+import type { TreeItem, TreeLimits } from './tree';
+
+const REMINDER_ALARM = 'plan-p-reminders';
+const REMINDER_PERIOD_MINUTES = 15;
+const REMINDER_NOTIFICATION_ID = 'plan-p-reminder';
+const CAPTURE_NOTIFICATION_ID = 'plan-p-capture';
+// 已提醒记录只和本机有关，直接放 chrome.storage.local，不经过同步适配层
+const NOTIFIED_STORAGE_KEY = 'plan-p-notified';
+const BADGE_COLOR = '#5B8DEF';
+const BADGE_MAX = 99;
+
+interface NotifiedRecord {
+  day: number;
+  keys: string[];
+}
+
+interface Reminder {
+  key: string;
+  title: string;
+  message: string;
+}
+
+const displayTitle = (node: TreeItem): string => node.title.trim() || PLACEHOLDER_TITLE;
+
+const loadListsIndex = async (): Promise<ListsIndex> =>
+  (await loadDocument(LISTS_SCHEMA)).value ?? createDefaultListsIndex(DEFAULT_SETTINGS);
+
+const loadTree = async (listId: string): Promise<TreeItem[]> =>
+  (await loadDocument(listTreeSchema(listId))).value ?? [];
+
+const loadLimits = async (): Promise<TreeLimits> =>
+  ((await loadDocument(SETTINGS_SCHEMA)).value ?? DEFAULT_SETTINGS).limits;
+
+const loadNotified = async (today: number): Promise<Set<string>> => {
+  const items = await chrome.storage.local.get(NOTIFIED_STORAGE_KEY);
+  const record = items[NOTIFIED_STORAGE_KEY] as NotifiedRecord | undefined;
+  return new Set(record?.day === today ? record.keys : []);
+};
+
+const recordActivity = async (entries: ActivityEntry[]) => {
+  if (!entries.length) return;
+  const log = (await loadDocument(ACTIVITY_SCHEMA)).value ?? [];
+  await saveDocument(ACTIVITY_SCHEMA, appendActivity(log, entries));
+};
+
+const saveNotified = (today: number, keys: Set<string>) =>
+  chrome.storage.local.set({ [NOTIFIED_STORAGE_KEY]: { day: today, keys: Array.from(keys) } satisfies NotifiedRecord });
+
+const updateBadge = async () => {
+  const index = await loadListsIndex();
+  const now = Date.now();
+  const count = (await loadTree(index.activeId)).filter(node => !isSnoozed(node, now)).length;
+  await chrome.action.setBadgeBackgroundColor({ color: BADGE_COLOR });
+  await chrome.action.setBadgeText({ text: count ? (count > BADGE_MAX ? `${BADGE_MAX}+` : String(count)) : '' });
+};
+
+const collectDueReminders = (nodes: TreeItem[], listName: string, now: number, out: Reminder[]) => {
+  nodes.forEach(node => {
+    if (isSnoozed(node, now)) return;
+    const status = getDueStatus(node, now);
+    if (status === 'today' || status === 'overdue') {
+      out.push({
+        key: `due-${node.id}`,
+        title: displayTitle(node),
+        message: status === 'today' ? `今天到期 · ${listName}` : `已逾期 · ${listName}`
+      });
+    }
+    collectDueReminders(node.children, listName, now, out);
+  });
+};
+
+const checkReminders = async () => {
+  const index = await loadListsIndex();
+  const now = Date.now();
+  const today = startOfDay(now);
+  const notified = await loadNotified(today);
+  const reminders: Reminder[] = [];
+  const { maxDepth } = await loadLimits();
+  const savedRepeats = (await loadDocument(REPEATS_SCHEMA)).value ?? [];
+  // 已删除清单的记录顺手清掉
+  let pending = savedRepeats.filter(entry => index.lists.some(list => list.id === entry.listId));
+  const created: ActivityEntry[] = [];
+
+  for (const list of index.lists) {
+    const schema = listTreeSchema(list.id);
+    const { tree: awake, woken } = wakeSnoozedNodes(await loadTree(list.id), now);
+    const repeated = materializeRepeats(awake, pending, list.id, now, maxDepth);
+    const tree = repeated.tree;
+    pending = repeated.pending;
+    if (woken.length || repeated.created.length) await saveDocument(schema, tree);
+    created.push(...recordCreated(repeated.created, list.id, now));
+    woken.forEach(node => reminders.push({ key: `snooze-${node.id}`, title: displayTitle(node), message: `推迟到期，回到了「${list.name}」` }));
+    repeated.created.forEach(node => reminders.push({ key: `repeat-${node.id}`, title: displayTitle(node), message: `例行任务，回到了「${list.name}」` }));
+    collectDueReminders(tree, list.name, now, reminders);
+  }
+  if (pending.length !== savedRepeats.length) await saveDocument(REPEATS_SCHEMA, pending);
+  await recordActivity(created);
+
+  const fresh = reminders.filter(reminder => !notified.has(reminder.key));
+  if (!fresh.length) return;
+  fresh.forEach(reminder => notified.add(reminder.key));
+  await saveNotified(today, notified);
+  // 一次检查只弹一条通知，多项时合并成列表
+  await chrome.notifications.create(REMINDER_NOTIFICATION_ID, fresh.length === 1
+    ? { type: 'basic', iconUrl: 'icons.png', title: fresh[0].title, message: fresh[0].message }
+    : {
+      type: 'list',
+      iconUrl: 'icons.png',
+      title: `Plan P · ${fresh.length} 项需要留意`,
+      message: '',
+      items: fresh.map(reminder => ({ title: reminder.title, message: reminder.message }))
+    });
+};
+
+// 右键链接时收链接本身，否则收当前页面；选中了文字就用它当标题
+const pageFromContext = (info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab): CapturedPage | null => {
+  if (isCapturableUrl(info.linkUrl)) return { title: info.selectionText ?? info.linkUrl, url: info.linkUrl };
+  const url = info.pageUrl ?? tab?.url;
+  if (!isCapturableUrl(url)) return null;
+  return { title: info.selectionText ?? tab?.title ?? '', url };
+};
+
+const loadActiveList = async () => {
+  const index = await loadListsIndex();
+  return index.lists.find(candidate => candidate.id === index.activeId) ?? index.lists[0];
+};
+
+/** 追加到当前清单顶层末尾并弹一条确认通知；append 返回 null 时什么也不做。 */
+const appendToActiveList = async (append: (tree: TreeItem[], limits: TreeLimits) => AppendResult | null) => {
+  const list = await loadActiveList();
+  const result = append(await loadTree(list.id), await loadLimits());
+  if (!result) return;
+  const { tree, item, excess } = result;
+  await saveDocument(listTreeSchema(list.id), tree);
+  await recordActivity(recordCreated([item], list.id, Date.now()));
+  const tags = item.tags?.map(tag => ` #${tag}`).join('') ?? '';
+  await chrome.notifications.create(CAPTURE_NOTIFICATION_ID, {
+    type: 'basic',
+    iconUrl: 'icons.png',
+    title: `已加入「${list.name}」`,
+    message: excess > 0 ? `${item.title}…${tags}\n标题超出了${excess}字，已截断` : `${item.title}${tags}`
+  });
+};
+
+const createContextMenu = () => {
+  chrome.contextMenus.removeAll(() => {
+    chrome.contextMenus.create({ id: CAPTURE_MENU_ID, title: '加入 Plan P', contexts: ['page', 'link', 'selection'] });
+  });
+};
+
+const ensureAlarm = async () => {
+  if (await chrome.alarms.get(REMINDER_ALARM)) return;
+  await chrome.alarms.create(REMINDER_ALARM, { delayInMinutes: 1, periodInMinutes: REMINDER_PERIOD_MINUTES });
+};
+
+const refresh = () => {
+  checkReminders()
+    .then(updateBadge)
+    .catch(e => console.warn('[background] 检查提醒失败', e));
+};
+
+chrome.runtime.onInstalled.addListener(() => {
+  createContextMenu();
+  refresh();
+});
+chrome.runtime.onStartup.addListener(refresh);
+
+chrome.alarms.onAlarm.addListener(alarm => {
+  if (alarm.name === REMINDER_ALARM) refresh();
+});
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  if (info.menuItemId !== CAPTURE_MENU_ID) return;
+  const page = pageFromContext(info, tab);
+  if (!page) return;
+  appendToActiveList((tree, limits) => appendCapturedPage(tree, page, limits.maxTitleLength)).catch(e => console.warn('[background] 加入清单失败', e));
+});
+
+chrome.commands.onCommand.addListener(command => {
+  if (command !== QUICK_ADD_COMMAND) return;
+  requestQuickAdd()
+    .then(() => chrome.action.openPopup())
+    // 打不开弹窗（例如没有聚焦的浏览器窗口）时撤回请求，免得下次手动打开误触发
+    .catch(() => cancelQuickAddRequest());
+});
+
+// 地址栏建议的描述按 XML 解析
+const escapeOmnibox = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+chrome.omnibox.setDefaultSuggestion({ description: '加入 Plan P：输入任务，可用 #标签' });
+
+chrome.omnibox.onInputChanged.addListener(text => {
+  loadActiveList()
+    .then(list => chrome.omnibox.setDefaultSuggestion({
+      description: text.trim() ? escapeOmnibox(`加入「${list.name}」：${text.trim()}`) : '加入 Plan P：输入任务，可用 #标签'
+    }))
+    .catch(() => {});
+});
+
+chrome.omnibox.onInputEntered.addListener(text => {
+  appendToActiveList((tree, limits) => appendQuickEntry(tree, text, limits.maxTitleLength)).catch(e => console.warn('[background] 加入清单失败', e));
+});
+
+chrome.notifications.onClicked.addListener(notificationId => {
+  void chrome.notifications.clear(notificationId);
+  chrome.action.openPopup().catch(() => {});
+});
+
+// 弹窗或其它设备改动了清单后刷新角标
+storage.subscribe(key => {
+  if (key === LISTS_SCHEMA.key || listIdFromTreeKey(key) !== null) {
+    updateBadge().catch(e => console.warn('[background] 更新角标失败', e));
+  }
+});
+
+void ensureAlarm();
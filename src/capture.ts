@@ -0,0 +1,111 @@
+/**
+ * capture.ts
+ * ---------------------------------------------------------------------------
+ * 不经过清单界面的快速收集：当前标签页、右键菜单、地址栏 `pp`、全局快捷键。
+ *
+ * [约定]
+ * 1. 只收 http(s) 页面，URL 原样保存在节点上，点节点上的链接图标重新打开。
+ * 2. 标题按用户设置的字数上限截断（默认 MAX_TITLE_LENGTH），超出的字数交给调用方提示。
+ * 3. 新节点追加在顶层末尾，与工具栏的「新建项目」一致。
+ * 4. 全局快捷键由后台在 chrome.storage.session 里留一个请求标记再打开弹窗，
+ *    弹窗读到后直接进入新建编辑；标记过期作废，避免下次手动打开时误触发。
+ */
+
+import { MAX_TITLE_LENGTH, collectIds, generateUniqueId } from './tree';
+import type { TreeItem } from './tree';
+import { parseTitleTags } from './tags';
+
+export const CAPTURE_MENU_ID = 'plan-p-capture';
+export const QUICK_ADD_COMMAND = 'quick-add';
+const QUICK_ADD_REQUEST_KEY = 'plan-p-quick-add';
+const QUICK_ADD_REQUEST_TTL_MS = 10 * 1000;
+
+export interface CapturedPage {
+  title: string;
+  url: string;
+}
+
+export const isCapturableUrl = (url: string | undefined): url is string => !!url && /^https?:\/\//i.test(url);
+
+/** 开发环境（普通网页）里没有 chrome.tabs */
+export const canCaptureTabs = (): boolean => typeof chrome !== 'undefined' && !!chrome.tabs;
+
+export interface AppendResult {
+  tree: TreeItem[];
+  item: TreeItem;
+  /** 标题被截掉的字数 */
+  excess: number;
+}
+
+const appendTopLevelItem = (tree: TreeItem[], rawTitle: string, extra: Partial<TreeItem>, maxTitleLength: number): AppendResult => {
+  const item: TreeItem = {
+    ...extra,
+    id: generateUniqueId(collectIds(tree)),
+    title: rawTitle.slice(0, maxTitleLength),
+    isOpen: true,
+    children: []
+  };
+  return { tree: [...tree, item], item, excess: Math.max(0, rawTitle.length - maxTitleLength) };
+};
+
+export const appendCapturedPage = (tree: TreeItem[], page: CapturedPage, maxTitleLength = MAX_TITLE_LENGTH): AppendResult =>
+  appendTopLevelItem(tree, page.title.replace(/\s+/g, ' ').trim() || page.url, { url: page.url }, maxTitleLength);
+
+/** 地址栏输入的一行文字，`#标签` 与重命名时一样单独保存；没有标题文字时返回 null。 */
+export const appendQuickEntry = (tree: TreeItem[], text: string, maxTitleLength = MAX_TITLE_LENGTH): AppendResult | null => {
+  const { title, tags } = parseTitleTags(text.replace(/\s+/g, ' '));
+  if (!title) return null;
+  return appendTopLevelItem(tree, title, tags.length ? { tags } : {}, maxTitleLength);
+};
+
+/** 当前窗口的活动标签页；不是网页（如设置页、新标签页）时返回 null。 */
+export const getActiveTabPage = async (): Promise<CapturedPage | null> => {
+  if (!canCaptureTabs()) return null;
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  return tab && isCapturableUrl(tab.url) ? { title: tab.title ?? '', url: tab.url } : null;
+};
+
+export const openUrl = (url: string) => {
+  if (!isCapturableUrl(url)) return;
+  if (canCaptureTabs()) void chrome.tabs.create({ url });
+  else window.open(url, '_blank', 'noopener');
+};
+
+export const formatUrlHost = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch (e) {
+    return url;
+  }
+};
+
+// --- 全局快捷键 ---
+const hasSessionStorage = (): boolean => typeof chrome !== 'undefined' && !!chrome.storage?.session;
+
+export const requestQuickAdd = async () => {
+  if (hasSessionStorage()) await chrome.storage.session.set({ [QUICK_ADD_REQUEST_KEY]: Date.now() });
+};
+
+export const cancelQuickAddRequest = async () => {
+  if (hasSessionStorage()) await chrome.storage.session.remove(QUICK_ADD_REQUEST_KEY);
+};
+
+/** 读取并清掉请求标记，返回是否有未过期的请求。 */
+export const consumeQuickAddRequest = async (): Promise<boolean> => {
+  if (!hasSessionStorage()) return false;
+  const items = await chrome.storage.session.get(QUICK_ADD_REQUEST_KEY);
+  const requestedAt = items[QUICK_ADD_REQUEST_KEY];
+  if (typeof requestedAt !== 'number') return false;
+  await chrome.storage.session.remove(QUICK_ADD_REQUEST_KEY);
+  return Date.now() - requestedAt < QUICK_ADD_REQUEST_TTL_MS;
+};
+
+/** 弹窗已经打开时再按快捷键，通过存储变化收到请求。 */
+export const onQuickAddRequest = (listener: () => void): (() => void) => {
+  if (!hasSessionStorage()) return () => {};
+  const handler = (changes: Record<string, chrome.storage.StorageChange>) => {
+    if (changes[QUICK_ADD_REQUEST_KEY]?.newValue !== undefined) listener();
+  };
+  chrome.storage.session.onChanged.addListener(handler);
+  return () => chrome.storage.session.onChanged.removeListener(handler);
+};
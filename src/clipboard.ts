@@ -0,0 +1,84 @@
+/**
+ * clipboard.ts
+ * ---------------------------------------------------------------------------
+ * 子树的复制、剪切与粘贴，借用浏览器的 copy / cut / paste 事件读写系统剪贴板。
+ *
+ * [约定]
+ * 1. 复制时写两份：两个空格一层的纯文本大纲，贴到别的软件里直接能用；
+ *    以及带备注、标签、日期等完整字段的结构化数据（自定义 MIME，只有 Plan P 自己认）。
+ * 2. 粘贴优先读结构化数据；没有时把纯文本按缩进解析成树，规则与导入 Markdown 相同。
+ * 3. 粘贴出的节点一律换新 id；层级按粘贴位置往下还剩几层整理，标题按字数上限截断。
+ *    结构化数据里带着复制时的 id，粘贴时一并返回新旧 id 的对应，剪切再粘贴可以认作移动（见 activity.ts）。
+ * 4. 只在事件里同步读写，不需要额外申请剪贴板权限。
+ */
+
+import { cloneWithFreshIds, collectIds } from './tree';
+import type { TreeItem } from './tree';
+import { TREE_SCHEMA_VERSION, validateTree } from './schema';
+import { fitTreeToLimits, parseOutline } from './transfer';
+
+export const CLIPBOARD_MIME = 'application/x-plan-p';
+const CLIPBOARD_FORMAT = 'plan-p-subtree';
+
+export interface PastedItems {
+  items: TreeItem[];
+  truncated: number;
+  flattened: number;
+  /** 新 id → 复制时的 id；从纯文本解析出的节点没有 */
+  sourceIds: Map<string, string>;
+}
+
+/** 标题里的换行压成空格，#标签 接在标题后面，粘回来时照样拆出来。 */
+export const formatOutline = (items: TreeItem[]): string => {
+  const lines: string[] = [];
+  const walk = (nodes: TreeItem[], depth: number) => {
+    nodes.forEach(node => {
+      const tags = node.tags?.map(tag => ` #${tag}`).join('') ?? '';
+      lines.push(`${'  '.repeat(depth)}${node.title.replace(/\s*\n\s*/g, ' ').trim()}${tags}`);
+      walk(node.children, depth + 1);
+    });
+  };
+  walk(items, 0);
+  return lines.join('\n');
+};
+
+export const writeClipboard = (clipboard: DataTransfer, items: TreeItem[]) => {
+  clipboard.setData('text/plain', formatOutline(items));
+  clipboard.setData(CLIPBOARD_MIME, JSON.stringify({ format: CLIPBOARD_FORMAT, version: TREE_SCHEMA_VERSION, items }));
+};
+
+const parseStructured = (raw: string): TreeItem[] | null => {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed?.format !== CLIPBOARD_FORMAT) return null;
+    return validateTree(parsed.items)?.value ?? null;
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * 读出剪贴板里的任务，整理到粘贴位置的限制内并换好新 id；
+ * availableDepth 为粘贴位置往下还能放几层。剪贴板里没有文字时返回 null。
+ */
+export const readClipboard = (
+  clipboard: DataTransfer,
+  tree: TreeItem[],
+  availableDepth: number,
+  maxTitleLength: number
+): PastedItems | null => {
+  const structured = parseStructured(clipboard.getData(CLIPBOARD_MIME));
+  const items = structured ?? parseOutline(clipboard.getData('text/plain')).items;
+  if (!items.length) return null;
+  const fitted = fitTreeToLimits(items, availableDepth, maxTitleLength);
+  const cloned = cloneWithFreshIds(fitted.items, collectIds(tree));
+  const sourceIds = new Map<string, string>();
+  // 换 id 不改结构，两棵树逐个对应
+  const pair = (copies: TreeItem[], originals: TreeItem[]) => copies.forEach((copy, i) => {
+    sourceIds.set(copy.id, originals[i].id);
+    pair(copy.children, originals[i].children);
+  });
+  if (structured) pair(cloned, fitted.items);
+  return { ...fitted, items: cloned, sourceIds };
+};
@@ -0,0 +1,96 @@
+/**
+ * focus.ts
+ * ---------------------------------------------------------------------------
+ * 专注方案：决定列表里哪些任务清晰、哪些淡出。
+ *
+ * [模型]
+ * 1. curve：按名次给出强度（1 为完全清晰），超出长度的名次沿用最后一个值。
+ * 2. order：
+ *    - sibling：名次是同级中的位置，强度沿层级相乘（原先的 1/2/3 档）；
+ *    - leaf：按深度优先把叶子排成「下一步」队列，名次是在队列中的位置，
+ *      父节点取其第一个叶子的名次，不再受祖先影响。
+ * 3. effect：强度落到透明度、模糊或缩放上。
+ */
+
+import type { CSSProperties } from 'react';
+import type { TreeItem } from './tree';
+
+export type FocusOrder = 'sibling' | 'leaf';
+export type FocusEffect = 'opacity' | 'blur' | 'scale';
+
+export interface FocusProfile {
+  id: string;
+  name: string;
+  curve: number[];
+  order: FocusOrder;
+  effect: FocusEffect;
+}
+
+export interface FocusRender {
+  profile: FocusProfile;
+  /** order 为 leaf 时每个节点的名次 */
+  leafRanks: Map<string, number> | null;
+}
+
+export const MIN_FOCUS_STRENGTH = 0.01;
+export const MAX_CURVE_LENGTH = 6;
+export const MAX_PROFILE_NAME_LENGTH = 12;
+const MAX_BLUR_PX = 3;
+const MIN_SCALE = 0.8;
+
+// 与旧版 OpacityMode 1/2/3 完全一致，工具栏的数字按钮直接对应它们
+export const BUILTIN_FOCUS_PROFILES: FocusProfile[] = [
+  { id: 'mode-1', name: '1 档 · 只看第一项', curve: [1, MIN_FOCUS_STRENGTH], order: 'sibling', effect: 'opacity' },
+  { id: 'mode-2', name: '2 档 · 再多看一眼', curve: [1, 0.5, MIN_FOCUS_STRENGTH], order: 'sibling', effect: 'opacity' },
+  { id: 'mode-3', name: '3 档 · 渐隐', curve: [1, 0.5, 0.15, MIN_FOCUS_STRENGTH], order: 'sibling', effect: 'opacity' }
+];
+
+export const DEFAULT_FOCUS_PROFILE_ID = 'mode-2';
+
+export const FOCUS_ORDER_LABELS: Record<FocusOrder, string> = {
+  sibling: '同级顺序',
+  leaf: '下一个可执行的叶子'
+};
+
+export const FOCUS_EFFECT_LABELS: Record<FocusEffect, string> = {
+  opacity: '透明',
+  blur: '模糊',
+  scale: '缩小'
+};
+
+export const isBuiltinProfile = (id: string): boolean => BUILTIN_FOCUS_PROFILES.some(profile => profile.id === id);
+
+export const resolveFocusProfile = (profiles: FocusProfile[], id: string): FocusProfile =>
+  BUILTIN_FOCUS_PROFILES.find(profile => profile.id === id) ??
+  profiles.find(profile => profile.id === id) ??
+  BUILTIN_FOCUS_PROFILES.find(profile => profile.id === DEFAULT_FOCUS_PROFILE_ID)!;
+
+export const clampStrength = (value: number): number => Math.min(1, Math.max(MIN_FOCUS_STRENGTH, value));
+
+export const getRankStrength = (profile: FocusProfile, rank: number): number =>
+  profile.curve[Math.min(rank, profile.curve.length - 1)] ?? 1;
+
+/** 深度优先给叶子排名；父节点的名次等于它第一个叶子的名次。 */
+export const computeLeafRanks = (tree: TreeItem[]): Map<string, number> => {
+  const ranks = new Map<string, number>();
+  let next = 0;
+  const walk = (nodes: TreeItem[]) => {
+    nodes.forEach(node => {
+      if (!node.children.length) {
+        ranks.set(node.id, next++);
+        return;
+      }
+      const first = next;
+      walk(node.children);
+      ranks.set(node.id, first);
+    });
+  };
+  walk(tree);
+  return ranks;
+};
+
+export const getFocusStyle = (effect: FocusEffect, strength: number): CSSProperties => {
+  if (effect === 'blur') return { filter: strength >= 1 ? undefined : `blur(${((1 - strength) * MAX_BLUR_PX).toFixed(2)}px)` };
+  if (effect === 'scale') return { transform: strength >= 1 ? undefined : `scale(${MIN_SCALE + (1 - MIN_SCALE) * strength})`, transformOrigin: 'left center' };
+  return { opacity: strength };
+};
@@ -0,0 +1,149 @@
+/**
+ * markdown.tsx
+ * ---------------------------------------------------------------------------
+ * 任务备注用的极简 Markdown 渲染，直接生成 React 元素，不拼接 HTML。
+ *
+ * [支持]
+ * 1. 块：段落、# 标题、- / 1. 列表（含 [ ] 复选框，只读）、``` 代码块。
+ * 2. 行内：`代码`、**粗体**、*斜体*、[文字](链接) 以及裸露的 http(s) 链接。
+ * 3. 链接只放行 http(s) 与 mailto，在新标签页打开。
+ */
+
+import React from 'react';
+import type { FC, ReactNode } from 'react';
+
+const SAFE_URL_PATTERN = /^(https?:\/\/|mailto:)/i;
+// 依次为：行内代码、[文字](链接)、粗体、斜体、裸链接（去掉末尾标点）
+const INLINE_PATTERN = /`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\*\*([^*]+)\*\*|\*([^*]+)\*|(https?:\/\/[^\s<>()]*[^\s<>().,;:!?'"，。；：！？）])/g;
+const LIST_ITEM_PATTERN = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+const CHECKBOX_PATTERN = /^\[( |x|X)\]\s*/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+
+const renderLink = (href: string, label: ReactNode, key: string): ReactNode =>
+  SAFE_URL_PATTERN.test(href) ? (
+    <a
+      key={key}
+      href={href}
+      target="_blank"
+      rel="noreferrer noopener"
+      onClick={e => e.stopPropagation()}
+      className="text-[#5B8DEF] underline decoration-[#5B8DEF]/30 hover:decoration-[#5B8DEF] break-all"
+    >
+      {label}
+    </a>
+  ) : (
+    <React.Fragment key={key}>{label}</React.Fragment>
+  );
+
+const renderInline = (text: string, keyPrefix: string): ReactNode[] => {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  let index = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > last) nodes.push(text.slice(last, start));
+    const key = `${keyPrefix}-${index++}`;
+    const [, code, linkText, linkHref, bold, italic, bare] = match;
+    if (code !== undefined) nodes.push(<code key={key} className="px-1 rounded bg-slate-100 font-mono text-[10px]">{code}</code>);
+    else if (linkText !== undefined) nodes.push(renderLink(linkHref, linkText, key));
+    else if (bold !== undefined) nodes.push(<strong key={key}>{bold}</strong>);
+    else if (italic !== undefined) nodes.push(<em key={key}>{italic}</em>);
+    else if (bare !== undefined) nodes.push(renderLink(bare, bare, key));
+    last = start + match[0].length;
+  }
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+};
+
+type Block =
+  | { type: 'paragraph'; lines: string[] }
+  | { type: 'heading'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'code'; lines: string[] };
+
+const parseBlocks = (source: string): Block[] => {
+  const blocks: Block[] = [];
+  let code: Block & { type: 'code' } | null = null;
+  source.split(/\r?\n/).forEach(line => {
+    if (line.trimStart().startsWith('```')) {
+      if (code) {
+        code = null;
+      } else {
+        code = { type: 'code', lines: [] };
+        blocks.push(code);
+      }
+      return;
+    }
+    if (code) {
+      code.lines.push(line);
+      return;
+    }
+    const previous = blocks[blocks.length - 1];
+    if (!line.trim()) {
+      // 空行结束当前段落或列表
+      if (previous && previous.type !== 'code') blocks.push({ type: 'paragraph', lines: [] });
+      return;
+    }
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({ type: 'heading', text: heading[2] });
+      return;
+    }
+    const item = line.match(LIST_ITEM_PATTERN);
+    if (item) {
+      const ordered = item[2] !== undefined;
+      if (previous?.type === 'list' && previous.ordered === ordered) previous.items.push(item[3]);
+      else blocks.push({ type: 'list', ordered, items: [item[3]] });
+      return;
+    }
+    if (previous?.type === 'paragraph') previous.lines.push(line);
+    else blocks.push({ type: 'paragraph', lines: [line] });
+  });
+  return blocks.filter(block => block.type !== 'paragraph' || block.lines.length);
+};
+
+const renderListItem = (text: string, key: string): ReactNode => {
+  const checkbox = text.match(CHECKBOX_PATTERN);
+  if (!checkbox) return <li key={key}>{renderInline(text, key)}</li>;
+  const done = checkbox[1] !== ' ';
+  return (
+    <li key={key} className="list-none -ml-3.5 flex items-start gap-1">
+      <span aria-hidden="true" className="flex-shrink-0">{done ? '☑' : '☐'}</span>
+      <span className={done ? 'line-through text-slate-400' : undefined}>{renderInline(text.slice(checkbox[0].length), key)}</span>
+    </li>
+  );
+};
+
+export const MarkdownNote: FC<{ source: string }> = ({ source }) => (
+  <div className="space-y-1.5 break-words">
+    {parseBlocks(source).map((block, i) => {
+      const key = `b${i}`;
+      if (block.type === 'heading') return <div key={key} className="font-bold text-slate-700">{renderInline(block.text, key)}</div>;
+      if (block.type === 'code') {
+        return (
+          <pre key={key} className="px-2 py-1 rounded-md bg-slate-100 font-mono text-[10px] whitespace-pre-wrap">
+            {block.lines.join('\n')}
+          </pre>
+        );
+      }
+      if (block.type === 'list') {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List key={key} className={`pl-3.5 space-y-0.5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+            {block.items.map((text, j) => renderListItem(text, `${key}-${j}`))}
+          </List>
+        );
+      }
+      return (
+        <p key={key}>
+          {block.lines.map((line, j) => (
+            <React.Fragment key={j}>
+              {j > 0 && <br />}
+              {renderInline(line, `${key}-${j}`)}
+            </React.Fragment>
+          ))}
+        </p>
+      );
+    })}
+  </div>
+);
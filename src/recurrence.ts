@@ -0,0 +1,187 @@
+/**
+ * recurrence.ts
+ * ---------------------------------------------------------------------------
+ * 例行任务（周报、清理邮箱）：节点带上重复规则，完成或删除后到下一个周期再原样出现一份。
+ *
+ * [约定]
+ * 1. 规则按自然日计算：每天、工作日、每周指定几天、每隔 N 天；
+ *    下一次从完成（删除）的当天往后数，当天不会马上再出现。
+ * 2. 完成或删除时，被移出树的每个带规则的节点各记一条待重复：原位置与去掉完成、推迟状态的子树。
+ *    连带移出的子任务（删掉整个项目、完成最后一个子任务时祖先一并归档）也一样；
+ *    位置记在仍留在树里的最近祖先下、被移出的那棵子树原来的序号处。
+ *    外层节点本身会重复时，它的副本里已经带着里面的节点，里面的不再单独记。
+ * 3. 到期后由弹窗（打开时与定时检查）或后台闹钟放回原处；父节点已不存在或放回会超出层级时退回顶层。
+ *    原节点又回到了树里（撤销、从归档恢复）时，这条待重复作废。
+ * 4. 副本的 id 由来源 id 与日期算出，弹窗和后台同时放回时得到的是同一个节点，不会出现两份。
+ */
+
+import { MAX_DEPTH, cloneWithFreshIds, collectIds, findContextById, findContextByIdWithDepth, getNodeMaxDepth, insertNodeAt } from './tree';
+import type { TreeItem } from './tree';
+import { addDays } from './schedule';
+
+export type RepeatRule =
+  | { kind: 'daily' }
+  | { kind: 'weekdays' }
+  /** 0 为周日，与 Date.getDay 一致 */
+  | { kind: 'weekly'; days: number[] }
+  | { kind: 'interval'; every: number };
+
+export interface PendingRepeat {
+  /** 完成或删除的那个节点；它还在树里时作废 */
+  sourceId: string;
+  listId: string;
+  item: TreeItem;
+  parentId: string | null;
+  index: number;
+  /** 再次出现的那天 0 点 */
+  at: number;
+}
+
+export const REPEAT_INTERVAL_RANGE = { min: 2, max: 365 } as const;
+const WEEKDAY_NAMES = '日一二三四五六';
+const WORKDAYS = [1, 2, 3, 4, 5];
+
+// 周一排在最前
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+export const getWeekdayName = (day: number): string => WEEKDAY_NAMES[day];
+
+/** 存储里读出的规则：不认识的返回 null，星期去重排序，间隔天数夹到范围内。 */
+export const normalizeRepeatRule = (raw: unknown): RepeatRule | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const rule = raw as Record<string, unknown>;
+  if (rule.kind === 'daily' || rule.kind === 'weekdays') return { kind: rule.kind };
+  if (rule.kind === 'weekly' && Array.isArray(rule.days)) {
+    const days = WEEKDAY_ORDER.filter(day => (rule.days as unknown[]).includes(day));
+    return days.length ? { kind: 'weekly', days } : null;
+  }
+  if (rule.kind === 'interval' && typeof rule.every === 'number' && Number.isFinite(rule.every)) {
+    const every = Math.max(REPEAT_INTERVAL_RANGE.min, Math.min(REPEAT_INTERVAL_RANGE.max, Math.round(rule.every)));
+    return { kind: 'interval', every };
+  }
+  return null;
+};
+
+export const isSameRepeatRule = (a: RepeatRule | undefined, b: RepeatRule | undefined): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export const formatRepeatRule = (rule: RepeatRule): string => {
+  if (rule.kind === 'daily') return '每天';
+  if (rule.kind === 'weekdays') return '工作日';
+  if (rule.kind === 'interval') return `每 ${rule.every} 天`;
+  return `每周${rule.days.map(getWeekdayName).join('、')}`;
+};
+
+/** from 当天之后第一个符合规则的日子（0 点）。 */
+export const getNextOccurrence = (rule: RepeatRule, from: number): number => {
+  if (rule.kind === 'interval') return addDays(from, rule.every);
+  if (rule.kind === 'daily') return addDays(from, 1);
+  const days = rule.kind === 'weekdays' ? WORKDAYS : rule.days;
+  for (let offset = 1; offset <= 7; offset++) {
+    const next = addDays(from, offset);
+    if (days.includes(new Date(next).getDay())) return next;
+  }
+  return addDays(from, 1);
+};
+
+export const setNodeRepeat = (node: TreeItem, rule: RepeatRule | null): TreeItem => {
+  if (rule) return { ...node, repeat: rule };
+  const { repeat: _removed, ...rest } = node;
+  return rest;
+};
+
+// 子树里只对当次有效的状态都去掉；原来有截止日期的，顺延到新的一天
+const resetForNextTime = (node: TreeItem, at: number, isRoot: boolean): TreeItem => {
+  const { completedAt: _completedAt, snoozeUntil: _snoozeUntil, dueAt, ...rest } = node;
+  return {
+    ...rest,
+    ...(isRoot && dueAt !== undefined ? { dueAt: at } : {}),
+    children: node.children.map(child => resetForNextTime(child, at, false))
+  };
+};
+
+/** rootIds 为将被移出树的各棵子树的根，生成其中带重复规则的节点的待重复记录；需在移出之前调用。 */
+export const createPendingRepeats = (tree: TreeItem[], rootIds: string[], listId: string, now: number): PendingRepeat[] =>
+  rootIds.flatMap(rootId => {
+    const ctx = findContextById(tree, rootId);
+    if (!ctx) return [];
+    const found: PendingRepeat[] = [];
+    const walk = (node: TreeItem) => {
+      if (!node.repeat) {
+        node.children.forEach(walk);
+        return;
+      }
+      const at = getNextOccurrence(node.repeat, now);
+      found.push({
+        sourceId: node.id,
+        listId,
+        item: resetForNextTime(node, at, true),
+        parentId: ctx.parent?.id ?? null,
+        index: ctx.index,
+        at
+      });
+    };
+    walk(ctx.node);
+    return found;
+  });
+
+/** 同一个节点反复完成（撤销后再完成）只保留最新的一条。 */
+export const addPendingRepeats = (pending: PendingRepeat[], added: PendingRepeat[]): PendingRepeat[] => {
+  if (!added.length) return pending;
+  const sources = new Set(added.map(entry => entry.sourceId));
+  return [...pending.filter(entry => !sources.has(entry.sourceId)), ...added];
+};
+
+const getRepeatCopyId = (entry: PendingRepeat): string => {
+  const seed = `${entry.sourceId}@${entry.at}`;
+  let a = 0x811c9dc5;
+  let b = 0;
+  for (let i = 0; i < seed.length; i++) {
+    a = Math.imul(a ^ seed.charCodeAt(i), 0x01000193);
+    b = (b * 31 + seed.charCodeAt(i)) | 0;
+  }
+  return `${(a >>> 0).toString(36)}${(b >>> 0).toString(36)}`.slice(0, 9);
+};
+
+export interface MaterializeResult {
+  tree: TreeItem[];
+  /** 去掉已处理（放回或作废）的记录后剩下的 */
+  pending: PendingRepeat[];
+  created: TreeItem[];
+}
+
+/** 把 listId 清单里已到期的待重复放回树中。 */
+export const materializeRepeats = (
+  tree: TreeItem[],
+  pending: PendingRepeat[],
+  listId: string,
+  now: number,
+  maxDepth = MAX_DEPTH
+): MaterializeResult => {
+  const due = pending.filter(entry => entry.listId === listId && entry.at <= now);
+  if (!due.length) return { tree, pending, created: [] };
+  const used = collectIds(tree);
+  const created: TreeItem[] = [];
+  let next = tree;
+  // 同一父节点下按原序号从小到大放回，彼此的先后不变；同一处移出的几项依次往后排
+  const shifted = new Map<string, number>();
+  [...due].sort((a, b) => a.index - b.index).forEach(entry => {
+    const id = getRepeatCopyId(entry);
+    if (used.has(entry.sourceId) || used.has(id)) return;
+    used.add(id);
+    const item: TreeItem = { ...entry.item, id, children: cloneWithFreshIds(entry.item.children, used) };
+    const parentCtx = entry.parentId ? findContextByIdWithDepth(next, entry.parentId) : null;
+    const fitsParent = !!parentCtx && parentCtx.depth + getNodeMaxDepth(item) < maxDepth;
+    const slot = `${entry.parentId}@${entry.index}`;
+    const index = entry.index + (shifted.get(slot) ?? 0);
+    shifted.set(slot, (shifted.get(slot) ?? 0) + 1);
+    next = fitsParent
+      ? insertNodeAt(next, entry.parentId, index, item)
+      : insertNodeAt(next, null, entry.parentId ? next.length : index, item);
+    created.push(item);
+  });
+  const handled = new Set(due);
+  return { tree: next, pending: pending.filter(entry => !handled.has(entry)), created };
+};
+
+export const hasDueRepeats = (pending: PendingRepeat[], listId: string, now: number): boolean =>
+  pending.some(entry => entry.listId === listId && entry.at <= now);
@@ -0,0 +1,101 @@
+/**
+ * schedule.ts
+ * ---------------------------------------------------------------------------
+ * 截止日期与「推迟到」。
+ *
+ * 两者都按自然日计算，保存为当天 0 点的本地时间戳。
+ * 推迟的任务移到同级末尾，借透明度模式淡出；到期后回到同级最前面重新出现。
+ */
+
+import type { TreeItem } from './tree';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DueStatus = 'overdue' | 'today' | 'upcoming';
+
+export const startOfDay = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// 用 setDate 而不是加 DAY_MS，避免夏令时切换那天差一小时
+export const addDays = (timestamp: number, days: number): number => {
+  const date = new Date(startOfDay(timestamp));
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+export const nextMonday = (timestamp: number): number => {
+  const day = new Date(timestamp).getDay();
+  return addDays(timestamp, ((8 - day) % 7) || 7);
+};
+
+export const getDueStatus = (node: TreeItem, now: number): DueStatus | null => {
+  if (node.dueAt === undefined) return null;
+  const today = startOfDay(now);
+  if (node.dueAt < today) return 'overdue';
+  return node.dueAt < addDays(today, 1) ? 'today' : 'upcoming';
+};
+
+export const getOverdueDays = (dueAt: number, now: number): number =>
+  Math.round((startOfDay(now) - startOfDay(dueAt)) / DAY_MS);
+
+export const isSnoozed = (node: TreeItem, now: number): boolean =>
+  node.snoozeUntil !== undefined && node.snoozeUntil > now;
+
+export const formatShortDate = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getMonth() + 1}月${date.getDate()}日`;
+};
+
+// <input type="date"> 使用的 YYYY-MM-DD，按本地时区换算
+export const toDateInputValue = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const fromDateInputValue = (value: string): number | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+};
+
+/** 推迟到指定日期：写入 snoozeUntil 并移到同级末尾。 */
+export const snoozeNodeInTree = (tree: TreeItem[], id: string, until: number): TreeItem[] => {
+  const walk = (list: TreeItem[]): TreeItem[] => {
+    const index = list.findIndex(node => node.id === id);
+    if (index !== -1) return [...list.slice(0, index), ...list.slice(index + 1), { ...list[index], snoozeUntil: until }];
+    return list.map(node => (node.children.length ? { ...node, children: walk(node.children) } : node));
+  };
+  return walk(tree);
+};
+
+const wakeWhere = (tree: TreeItem[], shouldWake: (node: TreeItem) => boolean): { tree: TreeItem[]; woken: TreeItem[] } => {
+  const woken: TreeItem[] = [];
+  const walk = (list: TreeItem[]): TreeItem[] => {
+    const front: TreeItem[] = [];
+    const rest: TreeItem[] = [];
+    list.forEach(node => {
+      const next = node.children.length ? { ...node, children: walk(node.children) } : node;
+      if (node.snoozeUntil !== undefined && shouldWake(node)) {
+        const { snoozeUntil, ...awake } = next;
+        woken.push(awake);
+        front.push(awake);
+      } else {
+        rest.push(next);
+      }
+    });
+    return front.length ? [...front, ...rest] : rest;
+  };
+  const next = walk(tree);
+  return { tree: woken.length ? next : tree, woken };
+};
+
+/** 推迟日期已到的任务取消推迟，按原有先后回到各自同级的最前面。 */
+export const wakeSnoozedNodes = (tree: TreeItem[], now: number): { tree: TreeItem[]; woken: TreeItem[] } =>
+  wakeWhere(tree, node => node.snoozeUntil! <= now);
+
+export const unsnoozeNodeInTree = (tree: TreeItem[], id: string): TreeItem[] =>
+  wakeWhere(tree, node => node.id === id).tree;
@@ -0,0 +1,551 @@
+/**
+ * schema.ts
+ * ---------------------------------------------------------------------------
+ * 持久化数据的版本管理。
+ *
+ * [约定]
+ * 1. 每类数据固定一个不带版本号的 key，值是 { version, payload } 信封。
+ * 2. 结构变化时 version + 1，并在 migrations 里补一步 from → from + 1 的升级；
+ *    旧版本遗留的 key 记在 legacyKeys，首次读取时升级后写入新 key。
+ * 3. 升级后统一经过 validate 校验/修复；无法读取或无法识别的数据整份放进隔离区，
+ *    不直接丢弃，用户可以下载备份自行恢复。
+ */
+
+import { storage, StorageParseError } from './storage';
+import { DEFAULT_TREE_LIMITS, MAX_NOTE_LENGTH, clampTreeLimits, normalizeTreeIds } from './tree';
+import type { TreeItem, CompletedEntry, TreeLimits } from './tree';
+import { DEFAULT_FOCUS_PROFILE_ID, MAX_CURVE_LENGTH, MAX_PROFILE_NAME_LENGTH, clampStrength, isBuiltinProfile } from './focus';
+import type { FocusProfile } from './focus';
+import { mergeTags } from './tags';
+import { isCapturableUrl } from './capture';
+import { MAX_TEMPLATE_NAME_LENGTH, isBuiltinTemplate } from './templates';
+import type { TaskTemplate } from './templates';
+import { normalizeRepeatRule } from './recurrence';
+import type { PendingRepeat } from './recurrence';
+import { ACTIVITY_KINDS, MAX_ACTIVITY_ENTRIES } from './activity';
+import type { ActivityEntry } from './activity';
+
+export interface AppSettings {
+  enableOpacity: boolean;
+  /** 当前使用的专注方案，内置方案或 profiles 中的自定义方案 */
+  profileId: string;
+  /** 用户自定义的专注方案，所有清单共用 */
+  profiles: FocusProfile[];
+  /** 层级与标题字数上限，所有清单共用；调低时由界面先把已有数据整理到新上限内 */
+  limits: TreeLimits;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  enableOpacity: true,
+  profileId: DEFAULT_FOCUS_PROFILE_ID,
+  profiles: [],
+  limits: DEFAULT_TREE_LIMITS
+};
+
+// 每个清单独立的视图设置；全局 AppSettings 记录最近一次使用的视图，作为新建清单的默认值
+export type ListViewSettings = Pick<AppSettings, 'enableOpacity' | 'profileId'>;
+
+export const DEFAULT_LIST_VIEW: ListViewSettings = {
+  enableOpacity: DEFAULT_SETTINGS.enableOpacity,
+  profileId: DEFAULT_SETTINGS.profileId
+};
+
+export interface TaskList {
+  id: string;
+  name: string;
+  view: ListViewSettings;
+}
+
+export interface ListsIndex {
+  activeId: string;
+  lists: TaskList[];
+}
+
+export const DEFAULT_LIST_ID = 'default';
+export const DEFAULT_LIST_NAME = '我的清单';
+export const MAX_LIST_NAME_LENGTH = 12;
+
+export const QUARANTINE_STORAGE_KEY = 'plan-p-quarantine';
+const QUARANTINE_LIMIT = 10;
+
+interface DocumentEnvelope {
+  version: number;
+  payload: unknown;
+}
+
+export interface ValidationResult<T> {
+  value: T;
+  repaired: number;
+}
+
+export interface DocumentSchema<T> {
+  key: string;
+  version: number;
+  /** 旧 key 按从新到旧排列，version 表示该 key 中数据对应的版本 */
+  legacyKeys: Array<{ key: string; version: number }>;
+  /** migrations[n] 把第 n 版数据升级到第 n + 1 版 */
+  migrations: Record<number, (payload: unknown) => unknown>;
+  validate: (payload: unknown) => ValidationResult<T> | null;
+  /** 只存本机，不写入 chrome.storage.sync */
+  localOnly?: boolean;
+}
+
+export interface QuarantineEntry {
+  key: string;
+  reason: string;
+  quarantinedAt: number;
+  raw: string;
+}
+
+export interface LoadedDocument<T> {
+  value: T | undefined;
+  repaired: number;
+  quarantined: boolean;
+}
+
+class SchemaError extends Error {}
+
+const isEnvelope = (raw: unknown): raw is DocumentEnvelope =>
+  !!raw && typeof raw === 'object' && !Array.isArray(raw) &&
+  typeof (raw as DocumentEnvelope).version === 'number' && 'payload' in (raw as object);
+
+const isPlainObject = (raw: unknown): raw is Record<string, unknown> =>
+  !!raw && typeof raw === 'object' && !Array.isArray(raw);
+
+// --- 各类数据的校验 ---
+const sanitizeTreeItems = (list: unknown[], counter: { repaired: number }): TreeItem[] =>
+  list.flatMap(raw => {
+    if (!isPlainObject(raw)) {
+      counter.repaired++;
+      return [];
+    }
+    const item = { ...raw } as Record<string, unknown>;
+    if (typeof item.id !== 'string') {
+      item.id = '';
+      counter.repaired++;
+    }
+    if (typeof item.title !== 'string') {
+      item.title = item.title == null ? '' : String(item.title);
+      counter.repaired++;
+    }
+    if ('isOpen' in item && typeof item.isOpen !== 'boolean') {
+      delete item.isOpen;
+      counter.repaired++;
+    }
+    (['completedAt', 'dueAt', 'snoozeUntil'] as const).forEach(field => {
+      if (field in item && typeof item[field] !== 'number') {
+        delete item[field];
+        counter.repaired++;
+      }
+    });
+    if ('url' in item && (typeof item.url !== 'string' || !isCapturableUrl(item.url))) {
+      delete item.url;
+      counter.repaired++;
+    }
+    if ('note' in item) {
+      const note = typeof item.note === 'string' ? item.note.slice(0, MAX_NOTE_LENGTH) : '';
+      if (note !== item.note) counter.repaired++;
+      if (note.trim()) item.note = note;
+      else delete item.note;
+    }
+    if ('tags' in item) {
+      const raw = Array.isArray(item.tags) ? item.tags : [];
+      const tags = mergeTags([], raw.filter((tag): tag is string => typeof tag === 'string'));
+      if (!Array.isArray(item.tags) || tags.length !== raw.length || tags.some((tag, i) => tag !== raw[i])) counter.repaired++;
+      if (tags.length) item.tags = tags;
+      else delete item.tags;
+    }
+    if ('repeat' in item) {
+      const rule = normalizeRepeatRule(item.repeat);
+      if (JSON.stringify(rule) !== JSON.stringify(item.repeat)) counter.repaired++;
+      if (rule) item.repeat = rule;
+      else delete item.repeat;
+    }
+    if (Array.isArray(item.children)) {
+      item.children = sanitizeTreeItems(item.children, counter);
+    } else {
+      if (item.children !== undefined) counter.repaired++;
+      item.children = [];
+    }
+    return [item as unknown as TreeItem];
+  });
+
+export const validateTree = (payload: unknown): ValidationResult<TreeItem[]> | null => {
+  if (!Array.isArray(payload)) return null;
+  const counter = { repaired: 0 };
+  const { tree, changed } = normalizeTreeIds(sanitizeTreeItems(payload, counter));
+  return { value: tree, repaired: counter.repaired + (changed ? 1 : 0) };
+};
+
+const validateArchive = (payload: unknown): ValidationResult<CompletedEntry[]> | null => {
+  if (!Array.isArray(payload)) return null;
+  const counter = { repaired: 0 };
+  const entries = payload.flatMap(raw => {
+    if (!isPlainObject(raw) || !isPlainObject(raw.item) || typeof raw.completedAt !== 'number') {
+      counter.repaired++;
+      return [];
+    }
+    const [item] = sanitizeTreeItems([raw.item], counter);
+    const entry: CompletedEntry = {
+      item,
+      completedAt: raw.completedAt,
+      parentId: typeof raw.parentId === 'string' ? raw.parentId : null,
+      index: typeof raw.index === 'number' ? raw.index : 0,
+      path: Array.isArray(raw.path) ? raw.path.filter((p): p is string => typeof p === 'string') : [],
+      listId: typeof raw.listId === 'string' ? raw.listId : (counter.repaired++, DEFAULT_LIST_ID)
+    };
+    return [entry];
+  });
+  return { value: entries, repaired: counter.repaired };
+};
+
+// 方案 id 是否存在要结合 profiles 判断，这里只检查类型；渲染时找不到的方案退回默认方案
+const validateView = (payload: unknown): ValidationResult<ListViewSettings> | null => {
+  if (!isPlainObject(payload)) return null;
+  let repaired = 0;
+  const enableOpacity = typeof payload.enableOpacity === 'boolean' ? payload.enableOpacity : (repaired++, DEFAULT_LIST_VIEW.enableOpacity);
+  const profileId = typeof payload.profileId === 'string' && payload.profileId ? payload.profileId : (repaired++, DEFAULT_LIST_VIEW.profileId);
+  return { value: { enableOpacity, profileId }, repaired };
+};
+
+const validateProfiles = (payload: unknown, counter: { repaired: number }): FocusProfile[] => {
+  if (!Array.isArray(payload)) {
+    counter.repaired++;
+    return [];
+  }
+  const seen = new Set<string>();
+  return payload.flatMap(raw => {
+    if (!isPlainObject(raw) || typeof raw.id !== 'string' || !raw.id || isBuiltinProfile(raw.id) || seen.has(raw.id)) {
+      counter.repaired++;
+      return [];
+    }
+    const curve = Array.isArray(raw.curve)
+      ? raw.curve.filter((v): v is number => typeof v === 'number' && Number.isFinite(v)).slice(0, MAX_CURVE_LENGTH).map(clampStrength)
+      : [];
+    if (!curve.length) {
+      counter.repaired++;
+      return [];
+    }
+    seen.add(raw.id);
+    return [{
+      id: raw.id,
+      name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.slice(0, MAX_PROFILE_NAME_LENGTH) : (counter.repaired++, '自定义方案'),
+      curve,
+      order: raw.order === 'sibling' || raw.order === 'leaf' ? raw.order : (counter.repaired++, 'sibling'),
+      effect: raw.effect === 'opacity' || raw.effect === 'blur' || raw.effect === 'scale' ? raw.effect : (counter.repaired++, 'opacity')
+    }];
+  });
+};
+
+const validateLimits = (payload: unknown, counter: { repaired: number }): TreeLimits => {
+  const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+  if (!isPlainObject(payload) || !isNumber(payload.maxDepth) || !isNumber(payload.maxTitleLength)) {
+    counter.repaired++;
+    return { ...DEFAULT_TREE_LIMITS };
+  }
+  const limits = clampTreeLimits({ maxDepth: payload.maxDepth, maxTitleLength: payload.maxTitleLength });
+  if (limits.maxDepth !== payload.maxDepth || limits.maxTitleLength !== payload.maxTitleLength) counter.repaired++;
+  return limits;
+};
+
+const validateSettings = (payload: unknown): ValidationResult<AppSettings> | null => {
+  const view = validateView(payload);
+  if (!view || !isPlainObject(payload)) return null;
+  const counter = { repaired: view.repaired };
+  const profiles = validateProfiles(payload.profiles, counter);
+  const limits = validateLimits(payload.limits, counter);
+  return { value: { ...view.value, profiles, limits }, repaired: counter.repaired };
+};
+
+const validateTemplates = (payload: unknown): ValidationResult<TaskTemplate[]> | null => {
+  if (!Array.isArray(payload)) return null;
+  const counter = { repaired: 0 };
+  const seen = new Set<string>();
+  const templates = payload.flatMap(raw => {
+    if (!isPlainObject(raw) || typeof raw.id !== 'string' || !raw.id || isBuiltinTemplate(raw.id) || seen.has(raw.id) || !Array.isArray(raw.items)) {
+      counter.repaired++;
+      return [];
+    }
+    const { tree: items } = normalizeTreeIds(sanitizeTreeItems(raw.items, counter));
+    if (!items.length) {
+      counter.repaired++;
+      return [];
+    }
+    seen.add(raw.id);
+    const name = typeof raw.name === 'string' && raw.name.trim() ? raw.name.slice(0, MAX_TEMPLATE_NAME_LENGTH) : (counter.repaired++, '未命名模板');
+    return [{ id: raw.id, name, items }];
+  });
+  return { value: templates, repaired: counter.repaired };
+};
+
+const validateRepeats = (payload: unknown): ValidationResult<PendingRepeat[]> | null => {
+  if (!Array.isArray(payload)) return null;
+  const counter = { repaired: 0 };
+  const entries = payload.flatMap(raw => {
+    if (
+      !isPlainObject(raw) || !isPlainObject(raw.item) || typeof raw.sourceId !== 'string' ||
+      typeof raw.listId !== 'string' || typeof raw.at !== 'number'
+    ) {
+      counter.repaired++;
+      return [];
+    }
+    const [item] = sanitizeTreeItems([raw.item], counter);
+    const entry: PendingRepeat = {
+      sourceId: raw.sourceId,
+      listId: raw.listId,
+      item,
+      parentId: typeof raw.parentId === 'string' ? raw.parentId : null,
+      index: typeof raw.index === 'number' ? raw.index : 0,
+      at: raw.at
+    };
+    return [entry];
+  });
+  return { value: entries, repaired: counter.repaired };
+};
+
+const validateActivity = (payload: unknown): ValidationResult<ActivityEntry[]> | null => {
+  if (!Array.isArray(payload)) return null;
+  let repaired = 0;
+  const isText = (v: unknown): v is string => typeof v === 'string';
+  const entries = payload.flatMap(raw => {
+    if (
+      !isPlainObject(raw) || !ACTIVITY_KINDS.includes(raw.kind as ActivityEntry['kind']) || typeof raw.at !== 'number' ||
+      !isText(raw.listId) || !isText(raw.itemId) || !isText(raw.title)
+    ) {
+      repaired++;
+      return [];
+    }
+    const entry: ActivityEntry = {
+      kind: raw.kind as ActivityEntry['kind'],
+      at: raw.at,
+      listId: raw.listId,
+      itemId: raw.itemId,
+      title: raw.title,
+      ...(isText(raw.from) ? { from: raw.from } : {}),
+      ...(isText(raw.to) ? { to: raw.to } : {}),
+      ...(typeof raw.count === 'number' && raw.count > 1 ? { count: raw.count } : {}),
+      ...(raw.cut === true ? { cut: true } : {}),
+      ...(isPlainObject(raw.sources) && Object.values(raw.sources).every(isText) ? { sources: raw.sources as Record<string, string> } : {})
+    };
+    return [entry];
+  });
+  if (entries.length > MAX_ACTIVITY_ENTRIES) repaired++;
+  return { value: entries.slice(-MAX_ACTIVITY_ENTRIES), repaired };
+};
+
+// v1 → v2：数字档位 1/2/3 换成同名的内置专注方案
+const opacityModeToProfileId = (view: unknown): unknown => {
+  if (!isPlainObject(view)) return view;
+  const { opacityMode, ...rest } = view;
+  return { ...rest, profileId: `mode-${opacityMode}` };
+};
+
+const validateListsIndex = (payload: unknown): ValidationResult<ListsIndex> | null => {
+  if (!isPlainObject(payload) || !Array.isArray(payload.lists)) return null;
+  let repaired = 0;
+  const seen = new Set<string>();
+  const lists = payload.lists.flatMap(raw => {
+    if (!isPlainObject(raw) || typeof raw.id !== 'string' || !raw.id || seen.has(raw.id)) {
+      repaired++;
+      return [];
+    }
+    seen.add(raw.id);
+    const view = validateView(raw.view);
+    if (!view || view.repaired) repaired++;
+    const name = typeof raw.name === 'string' && raw.name.trim() ? raw.name.slice(0, MAX_LIST_NAME_LENGTH) : (repaired++, DEFAULT_LIST_NAME);
+    return [{ id: raw.id, name, view: view?.value ?? { ...DEFAULT_LIST_VIEW } }];
+  });
+  if (!lists.length) return null;
+  const activeId = typeof payload.activeId === 'string' && seen.has(payload.activeId) ? payload.activeId : (repaired++, lists[0].id);
+  return { value: { activeId, lists }, repaired };
+};
+
+// --- 数据定义 ---
+export const TREE_SCHEMA_VERSION = 1;
+const LIST_TREE_KEY_PREFIX = 'plan-p-list-';
+
+/**
+ * 每个清单的任务树单独存一个 key，切换清单时只需读取目标清单。
+ * 默认清单继承多清单之前的单一数据：plan-p-data（v1 信封）以及更早的 project-sort-data-v37。
+ */
+export const listTreeSchema = (listId: string): DocumentSchema<TreeItem[]> => ({
+  key: `${LIST_TREE_KEY_PREFIX}${listId}`,
+  version: TREE_SCHEMA_VERSION,
+  legacyKeys: listId === DEFAULT_LIST_ID
+    ? [{ key: 'plan-p-data', version: 1 }, { key: 'project-sort-data-v37', version: 0 }]
+    : [],
+  migrations: {
+    // v0：直接保存的 TreeItem[]，结构与 v1 相同，只是套上信封
+    0: payload => payload
+  },
+  validate: validateTree
+});
+
+export const listIdFromTreeKey = (key: string): string | null =>
+  key.startsWith(LIST_TREE_KEY_PREFIX) ? key.slice(LIST_TREE_KEY_PREFIX.length) : null;
+
+export const LISTS_SCHEMA: DocumentSchema<ListsIndex> = {
+  key: 'plan-p-lists',
+  version: 2,
+  legacyKeys: [],
+  migrations: {
+    1: payload => (isPlainObject(payload) && Array.isArray(payload.lists)
+      ? { ...payload, lists: payload.lists.map(list => (isPlainObject(list) ? { ...list, view: opacityModeToProfileId(list.view) } : list)) }
+      : payload)
+  },
+  validate: validateListsIndex
+};
+
+export const createDefaultListsIndex = (view: ListViewSettings): ListsIndex => ({
+  activeId: DEFAULT_LIST_ID,
+  lists: [{ id: DEFAULT_LIST_ID, name: DEFAULT_LIST_NAME, view: { enableOpacity: view.enableOpacity, profileId: view.profileId } }]
+});
+
+export const ARCHIVE_SCHEMA: DocumentSchema<CompletedEntry[]> = {
+  key: 'plan-p-archive',
+  version: 2,
+  legacyKeys: [{ key: 'project-sort-archive-v1', version: 0 }],
+  migrations: {
+    0: payload => payload,
+    // v2：引入多清单，已有的归档都属于默认清单
+    1: payload => (Array.isArray(payload)
+      ? payload.map(entry => (isPlainObject(entry) ? { ...entry, listId: DEFAULT_LIST_ID } : entry))
+      : payload)
+  },
+  validate: validateArchive
+};
+
+export const SETTINGS_SCHEMA: DocumentSchema<AppSettings> = {
+  key: 'plan-p-settings',
+  version: 3,
+  legacyKeys: [{ key: 'project-sort-settings-v2', version: 0 }],
+  migrations: {
+    0: payload => payload,
+    1: payload => (isPlainObject(payload) ? { ...(opacityModeToProfileId(payload) as object), profiles: [] } : payload),
+    // v3：层级与字数上限改为设置项，沿用原先写死的值
+    2: payload => (isPlainObject(payload) ? { ...payload, limits: { ...DEFAULT_TREE_LIMITS } } : payload)
+  },
+  validate: validateSettings
+};
+
+// 只存用户模板，内置模板在 templates.ts 里
+export const TEMPLATES_SCHEMA: DocumentSchema<TaskTemplate[]> = {
+  key: 'plan-p-templates',
+  version: 1,
+  legacyKeys: [],
+  migrations: {},
+  validate: validateTemplates
+};
+
+// 完成或删除后等着再出现的例行任务，各清单共用一份（见 recurrence.ts）
+export const REPEATS_SCHEMA: DocumentSchema<PendingRepeat[]> = {
+  key: 'plan-p-repeats',
+  version: 1,
+  legacyKeys: [],
+  migrations: {},
+  validate: validateRepeats
+};
+
+// 操作记录只和本机有关，条数又多，不占用同步配额（见 activity.ts）
+export const ACTIVITY_SCHEMA: DocumentSchema<ActivityEntry[]> = {
+  key: 'plan-p-activity',
+  version: 1,
+  legacyKeys: [],
+  migrations: {},
+  validate: validateActivity,
+  localOnly: true
+};
+
+// --- 读写 ---
+const upgrade = <T>(schema: DocumentSchema<T>, payload: unknown, fromVersion: number): ValidationResult<T> => {
+  if (fromVersion > schema.version) throw new SchemaError(`数据版本 v${fromVersion} 高于当前支持的 v${schema.version}`);
+  let current = payload;
+  for (let v = fromVersion; v < schema.version; v++) {
+    const migrate = schema.migrations[v];
+    if (!migrate) throw new SchemaError(`缺少 v${v} → v${v + 1} 的升级步骤`);
+    current = migrate(current);
+  }
+  const result = schema.validate(current);
+  if (!result) throw new SchemaError('数据结构无法识别');
+  return result;
+};
+
+/** 解码信封并升级到当前版本；用于读取以及 onChanged 收到的远端数据。 */
+export const decodeDocument = <T>(schema: DocumentSchema<T>, raw: unknown): ValidationResult<T> => {
+  if (!isEnvelope(raw)) throw new SchemaError('缺少版本信息');
+  return upgrade(schema, raw.payload, raw.version);
+};
+
+export const encodeDocument = <T>(schema: DocumentSchema<T>, value: T): DocumentEnvelope => ({
+  version: schema.version,
+  payload: value
+});
+
+export const saveDocument = <T>(schema: DocumentSchema<T>, value: T): Promise<void> =>
+  storage.set(schema.key, encodeDocument(schema, value), { localOnly: schema.localOnly });
+
+const stringifyRaw = (raw: unknown): string => {
+  try {
+    return typeof raw === 'string' ? raw : JSON.stringify(raw);
+  } catch (e) {
+    return String(raw);
+  }
+};
+
+const quarantine = async (key: string, raw: unknown, reason: string) => {
+  const entry: QuarantineEntry = { key, reason, quarantinedAt: Date.now(), raw: stringifyRaw(raw) };
+  const existing = await loadQuarantine();
+  await storage.set(QUARANTINE_STORAGE_KEY, [entry, ...existing].slice(0, QUARANTINE_LIMIT));
+};
+
+export const loadQuarantine = async (): Promise<QuarantineEntry[]> => {
+  try {
+    const saved = await storage.get(QUARANTINE_STORAGE_KEY);
+    return Array.isArray(saved) ? saved : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const clearQuarantine = (): Promise<void> => storage.remove(QUARANTINE_STORAGE_KEY);
+
+type RawRead = { status: 'missing' } | { status: 'ok'; raw: unknown } | { status: 'unreadable'; raw: string };
+
+const readRaw = async (key: string, localOnly?: boolean): Promise<RawRead> => {
+  try {
+    const raw = await storage.get(key, { localOnly });
+    return raw === undefined || raw === null ? { status: 'missing' } : { status: 'ok', raw };
+  } catch (e) {
+    if (e instanceof StorageParseError) return { status: 'unreadable', raw: e.raw };
+    return { status: 'missing' };
+  }
+};
+
+/**
+ * 读取一类数据：优先当前 key，不存在时依次尝试旧 key 并迁移。
+ * 读取失败的原始内容进入隔离区，value 返回 undefined 由调用方决定兜底。
+ */
+export const loadDocument = async <T>(schema: DocumentSchema<T>): Promise<LoadedDocument<T>> => {
+  const sources = [{ key: schema.key, version: null as number | null }, ...schema.legacyKeys];
+  for (const source of sources) {
+    const read = await readRaw(source.key, schema.localOnly);
+    if (read.status === 'missing') continue;
+    if (read.status === 'unreadable') {
+      await quarantine(source.key, read.raw, '内容不是合法的 JSON');
+      return { value: undefined, repaired: 0, quarantined: true };
+    }
+    try {
+      // 旧 key 里既可能是裸数据，也可能是已经套过信封的早期版本
+      const result = source.version === null || isEnvelope(read.raw)
+        ? decodeDocument(schema, read.raw)
+        : upgrade(schema, read.raw, source.version);
+      if (source.version !== null || result.repaired > 0) await saveDocument(schema, result.value);
+      return { value: result.value, repaired: result.repaired, quarantined: false };
+    } catch (e) {
+      if (!(e instanceof SchemaError)) throw e;
+      await quarantine(source.key, read.raw, e.message);
+      return { value: undefined, repaired: 0, quarantined: true };
+    }
+  }
+  return { value: undefined, repaired: 0, quarantined: false };
+};
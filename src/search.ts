@@ -0,0 +1,81 @@
+/**
+ * search.ts
+ * ---------------------------------------------------------------------------
+ * 全树搜索：标题子串或拼音首字母匹配。
+ *
+ * [要点]
+ * 1. 拼音首字母不引入字典，借助浏览器的中文排序规则二分定位声母，生僻字可能不准。
+ * 2. 首字母串与标题逐字对应，匹配位置可以直接拿来高亮原标题。
+ * 3. 搜索结果是一棵独立的展示用树：命中节点的祖先临时展开，不改写用户保存的 isOpen。
+ */
+
+import { filterTree } from './tree';
+import type { TreeItem } from './tree';
+
+/** 标题中命中的区间，左闭右开 */
+export type MatchRange = [number, number];
+
+export interface SearchResult {
+  /** 只含命中节点及其祖先，祖先强制展开 */
+  tree: TreeItem[];
+  matches: Map<string, MatchRange>;
+  /** 命中节点的深度优先顺序，用于在结果间跳转 */
+  order: string[];
+}
+
+// 每个声母在中文排序中的第一个字；i、u、v 没有对应的声母
+const INITIAL_LETTERS = 'abcdefghjklmnopqrstwxyz';
+const INITIAL_BOUNDARIES = '阿八嚓哒妸发旮哈讥咔垃痳拏噢妑七呥扨它穵夕丫帀';
+const CJK_PATTERN = /[\u4e00-\u9fff]/;
+
+let collator: Intl.Collator | null = null;
+const initialCache = new Map<string, string>();
+
+const getInitial = (char: string): string => {
+  if (!CJK_PATTERN.test(char)) return char.toLowerCase();
+  const cached = initialCache.get(char);
+  if (cached !== undefined) return cached;
+  collator ??= new Intl.Collator('zh-Hans-CN');
+  let low = 0;
+  let high = INITIAL_BOUNDARIES.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (collator.compare(char, INITIAL_BOUNDARIES[mid]) >= 0) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  const initial = found === -1 ? char : INITIAL_LETTERS[found];
+  initialCache.set(char, initial);
+  return initial;
+};
+
+/** 逐字转换，长度与原文相同（按 UTF-16 码元计）。 */
+export const getPinyinInitials = (text: string): string => text.split('').map(getInitial).join('');
+
+export const normalizeQuery = (query: string): string => query.trim().toLowerCase();
+
+/** query 需先经过 normalizeQuery。先找原文子串，纯字母的查询再试拼音首字母。 */
+export const matchTitle = (title: string, query: string): MatchRange | null => {
+  if (!query) return null;
+  const direct = title.toLowerCase().indexOf(query);
+  if (direct !== -1) return [direct, direct + query.length];
+  if (!/^[a-z]+$/.test(query)) return null;
+  const initials = getPinyinInitials(title).indexOf(query);
+  return initials === -1 ? null : [initials, initials + query.length];
+};
+
+export const searchTree = (tree: TreeItem[], rawQuery: string): SearchResult => {
+  const query = normalizeQuery(rawQuery);
+  const matches = new Map<string, MatchRange>();
+  if (!query) return { tree, matches, order: [] };
+  const filtered = filterTree(tree, node => {
+    const range = matchTitle(node.title, query);
+    if (range) matches.set(node.id, range);
+    return range !== null;
+  });
+  return { ...filtered, matches };
+};
@@ -0,0 +1,256 @@
+/**
+ * storage.ts
+ * ---------------------------------------------------------------------------
+ * 持久化适配层，统一成按 key 存取 JSON 值的异步接口。
+ *
+ * [后端选择]
+ * 1. 扩展环境：chrome.storage.local 作为即时落盘的主副本，
+ *    chrome.storage.sync 作为跨设备副本（防抖写入，超出单项配额时分片）。
+ *    sync 写入失败（总配额、条目数、频率限制）时该 key 退回仅本地存储；
+ *    只和本机有关、体积又会增长的数据（如操作记录）写入时指定 localOnly，从不占用同步配额。
+ * 2. Vite 开发环境：没有 chrome.storage，直接使用 localStorage。
+ *
+ * 两份副本都带 rev（写入时间戳），读取时取较新的一份；
+ * onChanged 只把比本实例已知更新的值通知出去，自己写入的回声会被过滤掉。
+ */
+
+/** 存储里的内容不是合法 JSON；保留原文，交给上层备份。 */
+export class StorageParseError extends Error {
+  constructor(readonly key: string, readonly raw: string) {
+    super(`无法解析 ${key} 中保存的数据`);
+    this.name = 'StorageParseError';
+  }
+}
+
+const parseStored = (key: string, raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    throw new StorageParseError(key, raw);
+  }
+};
+
+export type StorageChangeListener = (key: string, value: unknown) => void;
+
+export interface StorageOptions {
+  localOnly?: boolean;
+}
+
+export interface StorageAdapter {
+  readonly kind: 'chrome' | 'web';
+  get<T = unknown>(key: string, options?: StorageOptions): Promise<T | undefined>;
+  set(key: string, value: unknown, options?: StorageOptions): Promise<void>;
+  remove(key: string): Promise<void>;
+  subscribe(listener: StorageChangeListener): () => void;
+}
+
+interface StoredEnvelope {
+  rev: number;
+  value: unknown;
+}
+
+interface SyncMeta {
+  rev: number;
+  chunks: number;
+}
+
+// chrome.storage.sync.QUOTA_BYTES_PER_ITEM，按 key 长度 + 值的 JSON 字节数计算
+const SYNC_ITEM_BYTES = 8192;
+const SYNC_WRITE_DELAY_MS = 1000;
+const CHUNK_SEPARATOR = '::';
+
+const encoder = new TextEncoder();
+const byteLength = (text: string): number => encoder.encode(text).length;
+
+const chunkKey = (key: string, index: number): string => `${key}${CHUNK_SEPARATOR}${index}`;
+
+const isEnvelope = (raw: unknown): raw is StoredEnvelope =>
+  !!raw && typeof raw === 'object' && typeof (raw as StoredEnvelope).rev === 'number' && 'value' in (raw as object);
+
+const isSyncMeta = (raw: unknown): raw is SyncMeta =>
+  !!raw && typeof raw === 'object' && typeof (raw as SyncMeta).rev === 'number' && typeof (raw as SyncMeta).chunks === 'number';
+
+/** 按字节预算切分字符串，不拆开代理对。 */
+const splitIntoChunks = (text: string, budget: number): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 2; // JSON 字符串两侧的引号
+  for (const char of text) {
+    const cost = byteLength(JSON.stringify(char)) - 2;
+    if (currentBytes + cost > budget && current) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 2;
+    }
+    current += char;
+    currentBytes += cost;
+  }
+  if (current || !chunks.length) chunks.push(current);
+  return chunks;
+};
+
+const createWebStorage = (): StorageAdapter => ({
+  kind: 'web',
+  async get<T>(key: string) {
+    const saved = localStorage.getItem(key);
+    if (saved === null) return undefined;
+    return parseStored(key, saved) as T;
+  },
+  async set(key, value) {
+    localStorage.setItem(key, JSON.stringify(value));
+  },
+  async remove(key) {
+    localStorage.removeItem(key);
+  },
+  subscribe(listener) {
+    // 仅其它标签页的写入会触发 storage 事件
+    const handler = (event: StorageEvent) => {
+      if (!event.key || event.storageArea !== localStorage) return;
+      try {
+        listener(event.key, event.newValue === null ? undefined : JSON.parse(event.newValue));
+      } catch (e) {}
+    };
+    window.addEventListener('storage', handler);
+    return () => window.removeEventListener('storage', handler);
+  }
+});
+
+const createChromeStorage = (): StorageAdapter => {
+  const { local, sync } = chrome.storage;
+  const knownRevs = new Map<string, number>();
+  const pendingSync = new Map<string, { envelope: StoredEnvelope; timer: ReturnType<typeof setTimeout> }>();
+  const localOnlyKeys = new Set<string>();
+
+  const readSync = async (key: string): Promise<StoredEnvelope | undefined> => {
+    const metaItems = await sync.get(key);
+    const meta = metaItems[key];
+    if (!isSyncMeta(meta)) return undefined;
+    const keys = Array.from({ length: meta.chunks }, (_, i) => chunkKey(key, i));
+    const chunkItems = await sync.get(keys);
+    const text = keys.map(k => chunkItems[k]).join('');
+    return { rev: meta.rev, value: parseStored(key, text) };
+  };
+
+  const clearSync = async (key: string) => {
+    const metaItems = await sync.get(key);
+    const meta = metaItems[key];
+    const count = isSyncMeta(meta) ? meta.chunks : 0;
+    await sync.remove([key, ...Array.from({ length: count }, (_, i) => chunkKey(key, i))]);
+  };
+
+  const writeSync = async (key: string, envelope: StoredEnvelope) => {
+    if (localOnlyKeys.has(key)) return;
+    const budget = SYNC_ITEM_BYTES - byteLength(chunkKey(key, 999));
+    const chunks = splitIntoChunks(JSON.stringify(envelope.value), budget);
+    try {
+      const metaItems = await sync.get(key);
+      const previous = metaItems[key];
+      const previousCount = isSyncMeta(previous) ? previous.chunks : 0;
+      const items: Record<string, unknown> = { [key]: { rev: envelope.rev, chunks: chunks.length } };
+      chunks.forEach((chunk, i) => { items[chunkKey(key, i)] = chunk; });
+      await sync.set(items);
+      if (previousCount > chunks.length) {
+        await sync.remove(Array.from({ length: previousCount - chunks.length }, (_, i) => chunkKey(key, chunks.length + i)));
+      }
+    } catch (e) {
+      // 超出 sync 配额：该 key 只保留本地副本，并清掉旧的同步副本以免其它设备读到过期数据
+      console.warn(`[storage] sync 写入失败，${key} 改为仅本地存储`, e);
+      localOnlyKeys.add(key);
+      await clearSync(key).catch(() => {});
+    }
+  };
+
+  const scheduleSync = (key: string, envelope: StoredEnvelope) => {
+    const pending = pendingSync.get(key);
+    if (pending) clearTimeout(pending.timer);
+    const timer = setTimeout(() => {
+      pendingSync.delete(key);
+      void writeSync(key, envelope);
+    }, SYNC_WRITE_DELAY_MS);
+    pendingSync.set(key, { envelope, timer });
+  };
+
+  const readLocal = async (key: string): Promise<StoredEnvelope | undefined> => {
+    const items = await local.get(key);
+    return isEnvelope(items[key]) ? items[key] : undefined;
+  };
+
+  const write = async (key: string, value: unknown, options?: StorageOptions) => {
+    if (options?.localOnly) localOnlyKeys.add(key);
+    const rev = Math.max(Date.now(), (knownRevs.get(key) ?? 0) + 1);
+    const envelope: StoredEnvelope = { rev, value };
+    knownRevs.set(key, rev);
+    await local.set({ [key]: envelope });
+    scheduleSync(key, envelope);
+  };
+
+  return {
+    kind: 'chrome',
+    async get<T>(key: string, options?: StorageOptions) {
+      if (options?.localOnly) localOnlyKeys.add(key);
+      const [fromLocal, syncResult] = await Promise.all([
+        readLocal(key),
+        readSync(key).catch(e => (e instanceof StorageParseError ? e : undefined))
+      ]);
+      // 同步副本损坏时以本地为准；两边都没有可用数据才把解析错误抛给上层
+      if (syncResult instanceof StorageParseError && !fromLocal) throw syncResult;
+      const fromSync = syncResult instanceof StorageParseError ? undefined : syncResult;
+      if (!fromLocal && !fromSync) {
+        // 迁移到 chrome.storage 之前，数据保存在弹窗页的 localStorage 里
+        const legacy = typeof localStorage === 'undefined' ? null : localStorage.getItem(key);
+        if (legacy === null) return undefined;
+        const value = parseStored(key, legacy) as T;
+        await write(key, value);
+        return value;
+      }
+      const newest = !fromSync || (fromLocal && fromLocal.rev >= fromSync.rev) ? fromLocal! : fromSync;
+      knownRevs.set(key, newest.rev);
+      if (newest === fromSync && (!fromLocal || fromLocal.rev < fromSync.rev)) {
+        await local.set({ [key]: fromSync });
+      } else if (!fromSync || fromSync.rev < newest.rev) {
+        // 上次弹窗关闭时 sync 还没来得及写，这里补一次
+        scheduleSync(key, newest);
+      }
+      return newest.value as T;
+    },
+    set: write,
+    async remove(key) {
+      const pending = pendingSync.get(key);
+      if (pending) clearTimeout(pending.timer);
+      pendingSync.delete(key);
+      knownRevs.delete(key);
+      await local.remove(key);
+      await clearSync(key).catch(() => {});
+    },
+    subscribe(listener) {
+      const notifyIfNewer = (key: string, envelope: StoredEnvelope) => {
+        if (envelope.rev <= (knownRevs.get(key) ?? 0)) return;
+        knownRevs.set(key, envelope.rev);
+        listener(key, envelope.value);
+      };
+      const handler = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+        Object.entries(changes).forEach(([key, change]) => {
+          if (areaName === 'local' && isEnvelope(change.newValue)) {
+            notifyIfNewer(key, change.newValue);
+          } else if (areaName === 'sync' && isSyncMeta(change.newValue)) {
+            // 分片与元信息在同一次 set 中写入，元信息变化时整体重读
+            readSync(key)
+              .then(envelope => {
+                if (!envelope) return;
+                notifyIfNewer(key, envelope);
+                return local.set({ [key]: envelope });
+              })
+              .catch(() => {});
+          }
+        });
+      };
+      chrome.storage.onChanged.addListener(handler);
+      return () => chrome.storage.onChanged.removeListener(handler);
+    }
+  };
+};
+
+const hasChromeStorage = (): boolean =>
+  typeof chrome !== 'undefined' && !!chrome.storage?.local && !!chrome.storage?.sync;
+
+export const storage: StorageAdapter = hasChromeStorage() ? createChromeStorage() : createWebStorage();
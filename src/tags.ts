@@ -0,0 +1,86 @@
+/**
+ * tags.ts
+ * ---------------------------------------------------------------------------
+ * 标签：独立于标题保存，不再占用 MAX_TITLE_LENGTH 的字数。
+ *
+ * [约定]
+ * 1. 重命名时标题里的 `#标签` 会被摘出来，合并进节点已有的标签。
+ * 2. 颜色由标签名哈希决定，同名标签在任何清单、任何设备上颜色都一样。
+ * 3. 筛选保留层级：命中节点的祖先一并显示，命中节点自身的子树原样保留。
+ */
+
+import { filterTree } from './tree';
+import type { TreeItem } from './tree';
+
+export const MAX_TAG_LENGTH = 10;
+export const MAX_TAGS_PER_NODE = 5;
+
+// 行首或空白后的 #，到下一个空白或 # 为止
+const TAG_PATTERN = /(^|\s)#([^\s#]+)/g;
+
+const TAG_COLORS = [
+  'bg-rose-100 text-rose-600',
+  'bg-amber-100 text-amber-700',
+  'bg-emerald-100 text-emerald-700',
+  'bg-sky-100 text-sky-700',
+  'bg-violet-100 text-violet-700',
+  'bg-pink-100 text-pink-600',
+  'bg-teal-100 text-teal-700',
+  'bg-orange-100 text-orange-700'
+];
+
+export const normalizeTag = (raw: string): string => raw.trim().replace(/^#+/, '').replace(/\s+/g, '').slice(0, MAX_TAG_LENGTH);
+
+/** 合并并去重，保持先来后到，超出上限的丢弃。 */
+export const mergeTags = (existing: string[] | undefined, added: string[]): string[] => {
+  const result: string[] = [];
+  [...(existing ?? []), ...added].forEach(raw => {
+    const tag = normalizeTag(raw);
+    if (tag && !result.includes(tag) && result.length < MAX_TAGS_PER_NODE) result.push(tag);
+  });
+  return result;
+};
+
+/** 从输入中摘出 `#标签`，返回去掉标签后的标题。 */
+export const parseTitleTags = (raw: string): { title: string; tags: string[] } => {
+  const tags: string[] = [];
+  const title = raw
+    .replace(TAG_PATTERN, (_, lead: string, tag: string) => {
+      tags.push(tag);
+      return lead;
+    })
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+  return { title, tags: mergeTags([], tags) };
+};
+
+export const getTagColor = (tag: string): string => {
+  let hash = 0;
+  for (let i = 0; i < tag.length; i++) hash = (hash * 31 + tag.charCodeAt(i)) | 0;
+  return TAG_COLORS[Math.abs(hash) % TAG_COLORS.length];
+};
+
+/** 树中出现过的全部标签，按出现次数从多到少。 */
+export const collectTags = (tree: TreeItem[]): string[] => {
+  const counts = new Map<string, number>();
+  const walk = (nodes: TreeItem[]) => {
+    nodes.forEach(node => {
+      node.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+      walk(node.children);
+    });
+  };
+  walk(tree);
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([tag]) => tag);
+};
+
+export const setNodeTags = (node: TreeItem, tags: string[]): TreeItem => {
+  if (tags.length) return { ...node, tags };
+  const { tags: _removed, ...rest } = node;
+  return rest;
+};
+
+/** 带有任一所选标签的节点及其祖先。 */
+export const filterTreeByTags = (tree: TreeItem[], tags: string[]): TreeItem[] =>
+  tags.length ? filterTree(tree, node => node.tags?.some(tag => tags.includes(tag)) ?? false).tree : tree;
@@ -0,0 +1,112 @@
+/**
+ * templates.ts
+ * ---------------------------------------------------------------------------
+ * 任务模板：把反复要列的结构（发布检查、每周回顾、出行打包）存起来，需要时整棵套用。
+ *
+ * [约定]
+ * 1. 内置模板写在代码里，不能修改或删除；用户模板单独保存，所有清单共用。
+ * 2. 存为模板时去掉截止日期、推迟、完成时间这些只对当次有效的字段，备注、标签、链接保留。
+ * 3. 标题与备注里的占位符在套用时替换：{{date}} 为当天日期（10月18日），{{week}} 为 ISO 周次（第42周）。
+ * 4. 套用出的节点一律换新 id；层级与字数由调用方按插入位置整理（fitTreeToLimits）。
+ */
+
+import { cloneWithFreshIds } from './tree';
+import type { TreeItem } from './tree';
+import { DAY_MS, formatShortDate, startOfDay } from './schedule';
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  items: TreeItem[];
+}
+
+export const MAX_TEMPLATE_NAME_LENGTH = 12;
+const BUILTIN_TEMPLATE_PREFIX = 'builtin-';
+
+export const TEMPLATE_PLACEHOLDERS: Array<[string, string]> = [
+  ['{{date}}', '当天日期'],
+  ['{{week}}', '第几周']
+];
+
+const item = (title: string, children: TreeItem[] = []): TreeItem => ({ id: '', title, isOpen: true, children });
+
+export const BUILTIN_TEMPLATES: TaskTemplate[] = [
+  {
+    id: `${BUILTIN_TEMPLATE_PREFIX}release`,
+    name: '发布检查清单',
+    items: [
+      item('发布 {{date}}', [
+        item('代码冻结', [item('合并待发布分支'), item('跑完整测试')]),
+        item('更新版本号和更新日志'),
+        item('灰度发布', [item('观察监控 30 分钟'), item('确认无报错再放量')]),
+        item('全量发布并通知相关人')
+      ])
+    ]
+  },
+  {
+    id: `${BUILTIN_TEMPLATE_PREFIX}weekly-review`,
+    name: '每周回顾',
+    items: [
+      item('周回顾 {{week}}', [
+        item('收拢', [item('清空收件箱'), item('整理本周笔记')]),
+        item('回顾', [item('本周完成了什么'), item('卡在哪里，为什么')]),
+        item('计划', [item('定下周三件要事'), item('排进日程')])
+      ])
+    ]
+  },
+  {
+    id: `${BUILTIN_TEMPLATE_PREFIX}trip`,
+    name: '出行打包',
+    items: [
+      item('出行打包 {{date}}', [
+        item('证件', [item('身份证'), item('车票 / 登机牌')]),
+        item('电子', [item('手机充电器'), item('充电宝'), item('耳机')]),
+        item('衣物', [item('换洗衣物'), item('睡衣')]),
+        item('洗漱', [item('牙刷牙膏'), item('护肤品')])
+      ])
+    ]
+  }
+];
+
+export const isBuiltinTemplate = (id: string): boolean => id.startsWith(BUILTIN_TEMPLATE_PREFIX);
+
+/** ISO 8601 周次：周一为一周的开始，包含当年第一个周四的那周是第 1 周。 */
+export const getIsoWeek = (timestamp: number): number => {
+  const date = new Date(startOfDay(timestamp));
+  // 挪到同一周的周四，它所在的年份就是这一周所属的年份
+  date.setDate(date.getDate() + 3 - ((date.getDay() + 6) % 7));
+  const firstThursday = new Date(date.getFullYear(), 0, 4);
+  firstThursday.setDate(firstThursday.getDate() + 3 - ((firstThursday.getDay() + 6) % 7));
+  return 1 + Math.round((date.getTime() - firstThursday.getTime()) / (7 * DAY_MS));
+};
+
+export const expandPlaceholders = (text: string, now: number): string =>
+  text
+    .replace(/\{\{\s*date\s*\}\}/gi, () => formatShortDate(now))
+    .replace(/\{\{\s*week\s*\}\}/gi, () => `第${getIsoWeek(now)}周`);
+
+const stripTransientFields = (node: TreeItem): TreeItem => {
+  const { completedAt: _completedAt, dueAt: _dueAt, snoozeUntil: _snoozeUntil, ...rest } = node;
+  return { ...rest, isOpen: true, children: node.children.map(stripTransientFields) };
+};
+
+export const createTemplate = (id: string, name: string, nodes: TreeItem[]): TaskTemplate => ({
+  id,
+  name: name.trim().slice(0, MAX_TEMPLATE_NAME_LENGTH),
+  items: nodes.map(stripTransientFields)
+});
+
+/** 替换占位符并换上新 id（避开 used 里已有的），得到可以直接插入树中的节点。 */
+export const instantiateTemplate = (template: TaskTemplate, now: number, used: Set<string>): TreeItem[] => {
+  const expand = (nodes: TreeItem[]): TreeItem[] =>
+    nodes.map(node => ({
+      ...node,
+      title: expandPlaceholders(node.title, now),
+      ...(node.note ? { note: expandPlaceholders(node.note, now) } : {}),
+      children: expand(node.children)
+    }));
+  return cloneWithFreshIds(expand(template.items), used);
+};
+
+export const countTemplateItems = (nodes: TreeItem[]): number =>
+  nodes.reduce((sum, node) => sum + 1 + countTemplateItems(node.children), 0);
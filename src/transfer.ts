@@ -0,0 +1,282 @@
+/**
+ * transfer.ts
+ * ---------------------------------------------------------------------------
+ * 任务树的导入与导出：JSON（无损）、Markdown 清单、OPML。
+ *
+ * 导入统一走 fitTreeToLimits：标题超长截断、层级超限的节点提升到允许的最深一层，
+ * 并把处理过的数量记进报告，交给界面提示用户。
+ */
+
+import { DEFAULT_TREE_LIMITS, MAX_DEPTH, MAX_TITLE_LENGTH, normalizeTreeIds } from './tree';
+import type { TreeItem, TreeLimits } from './tree';
+import { TREE_SCHEMA_VERSION, validateTree } from './schema';
+import { parseTitleTags } from './tags';
+
+export type TransferFormat = 'json' | 'markdown' | 'opml';
+
+export interface ImportReport {
+  format: TransferFormat;
+  count: number;
+  truncated: number;
+  flattened: number;
+  skipped: number;
+}
+
+export interface ImportResult {
+  items: TreeItem[];
+  report: ImportReport;
+}
+
+export class ImportError extends Error {}
+
+const JSON_EXPORT_FORMAT = 'plan-p';
+
+export const TRANSFER_FILE_EXTENSIONS: Record<TransferFormat, string> = {
+  json: 'json',
+  markdown: 'md',
+  opml: 'opml'
+};
+
+const TRANSFER_MIME_TYPES: Record<TransferFormat, string> = {
+  json: 'application/json',
+  markdown: 'text/markdown',
+  opml: 'text/x-opml'
+};
+
+const singleLine = (title: string): string => title.replace(/\s*\n\s*/g, ' ').trim();
+
+const countNodes = (nodes: TreeItem[]): number =>
+  nodes.reduce((sum, node) => sum + 1 + countNodes(node.children), 0);
+
+// --- 导出 ---
+export const exportJson = (tree: TreeItem[]): string =>
+  JSON.stringify(
+    { format: JSON_EXPORT_FORMAT, version: TREE_SCHEMA_VERSION, exportedAt: new Date().toISOString(), items: tree },
+    null,
+    2
+  );
+
+export const exportMarkdown = (tree: TreeItem[]): string => {
+  const lines: string[] = [];
+  const walk = (nodes: TreeItem[], depth: number) => {
+    nodes.forEach(node => {
+      const tags = node.tags?.map(tag => ` #${tag}`).join('') ?? '';
+      lines.push(`${'  '.repeat(depth)}- [${node.completedAt ? 'x' : ' '}] ${singleLine(node.title)}${tags}`);
+      walk(node.children, depth + 1);
+    });
+  };
+  walk(tree, 0);
+  return `${lines.join('\n')}\n`;
+};
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const exportOpml = (tree: TreeItem[], title = 'Plan P'): string => {
+  const walk = (nodes: TreeItem[], depth: number): string =>
+    nodes
+      .map(node => {
+        const indent = '  '.repeat(depth + 2);
+        // _note 是 OPML 编辑器通用的备注属性
+        const text = `text="${escapeXml(singleLine(node.title))}"${node.note ? ` _note="${escapeXml(node.note).replace(/\n/g, '&#10;')}"` : ''}`;
+        if (!node.children.length) return `${indent}<outline ${text}/>`;
+        return `${indent}<outline ${text}>\n${walk(node.children, depth + 1)}\n${indent}</outline>`;
+      })
+      .join('\n');
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    `  <head><title>${escapeXml(title)}</title></head>`,
+    '  <body>',
+    walk(tree, 0),
+    '  </body>',
+    '</opml>',
+    ''
+  ].join('\n');
+};
+
+export const exportTree = (tree: TreeItem[], format: TransferFormat): string => {
+  if (format === 'json') return exportJson(tree);
+  if (format === 'markdown') return exportMarkdown(tree);
+  return exportOpml(tree);
+};
+
+// --- 导入 ---
+const parseJson = (text: string): TreeItem[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new ImportError('JSON 格式不正确');
+  }
+  const payload = parsed && typeof parsed === 'object' && !Array.isArray(parsed) && 'items' in parsed
+    ? (parsed as { items: unknown }).items
+    : parsed;
+  const result = validateTree(payload);
+  if (!result) throw new ImportError('JSON 中没有找到任务列表');
+  return result.value;
+};
+
+const parseOpml = (text: string): TreeItem[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const body = doc.querySelector('opml > body');
+  if (doc.querySelector('parsererror') || !body) throw new ImportError('OPML 格式不正确');
+  const walk = (parent: Element): TreeItem[] =>
+    Array.from(parent.children)
+      .filter(el => el.tagName === 'outline')
+      .map(el => {
+        const note = el.getAttribute('_note');
+        return {
+          id: '',
+          title: el.getAttribute('text') ?? el.getAttribute('title') ?? '',
+          isOpen: true,
+          children: walk(el),
+          ...(note?.trim() ? { note } : {})
+        };
+      });
+  return walk(body);
+};
+
+const BULLET_PATTERN = /^(?:[-*+]|\d+[.)])\s+/;
+const CHECKBOX_PATTERN = /^\[( |x|X)\]\s*/;
+const HEADING_PATTERN = /^(#{1,6})\s+/;
+// 标题按级别换算成远大于正文缩进的虚拟缩进，保证列表总是挂在最近的标题下面
+const HEADING_INDENT_STEP = 1000;
+
+/**
+ * 缩进大纲 → 树：兼容 Markdown 列表/复选框/标题以及纯文本缩进。
+ * 按缩进宽度维护祖先栈，不要求固定的缩进单位；已勾选的条目跳过。
+ */
+export const parseOutline = (text: string): { items: TreeItem[]; skipped: number } => {
+  const roots: TreeItem[] = [];
+  const stack: Array<{ indent: number; node: TreeItem }> = [];
+  let skipped = 0;
+  let headingIndent = 0;
+  let skipBelowIndent: number | null = null;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    if (!rawLine.trim()) return;
+    const expanded = rawLine.replace(/\t/g, '    ');
+    let indent = expanded.length - expanded.trimStart().length;
+    let content = expanded.trim();
+
+    const heading = content.match(HEADING_PATTERN);
+    if (heading) {
+      indent = (heading[1].length - 1) * HEADING_INDENT_STEP;
+      headingIndent = indent + HEADING_INDENT_STEP;
+      content = content.slice(heading[0].length);
+    } else {
+      indent += headingIndent;
+      content = content.replace(BULLET_PATTERN, '');
+    }
+
+    if (skipBelowIndent !== null) {
+      if (indent > skipBelowIndent) {
+        skipped++;
+        return;
+      }
+      skipBelowIndent = null;
+    }
+    const checkbox = content.match(CHECKBOX_PATTERN);
+    if (checkbox) {
+      content = content.slice(checkbox[0].length);
+      if (checkbox[1] !== ' ') {
+        skipped++;
+        skipBelowIndent = indent;
+        return;
+      }
+    }
+
+    // 与重命名一致，行内的 #标签 单独保存
+    const { title, tags } = parseTitleTags(content);
+    const node: TreeItem = { id: '', title, isOpen: true, children: [], ...(tags.length ? { tags } : {}) };
+    while (stack.length && stack[stack.length - 1].indent >= indent) stack.pop();
+    const parent = stack[stack.length - 1];
+    if (parent) parent.node.children.push(node);
+    else roots.push(node);
+    stack.push({ indent, node });
+  });
+  return { items: roots, skipped };
+};
+
+export const detectFormat = (text: string, fileName = ''): TransferFormat => {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.json')) return 'json';
+  if (lower.endsWith('.opml') || lower.endsWith('.xml')) return 'opml';
+  if (lower.endsWith('.md') || lower.endsWith('.markdown') || lower.endsWith('.txt')) return 'markdown';
+  const head = text.trimStart();
+  if (head.startsWith('{') || head.startsWith('[')) return 'json';
+  if (head.startsWith('<')) return 'opml';
+  return 'markdown';
+};
+
+/**
+ * 把任意来源的树约束到当前的层级与标题长度限制内。
+ * 位于最深一层的节点不能再有子节点，它的子孙按原顺序摊平成紧随其后的兄弟。
+ */
+export const fitTreeToLimits = (
+  nodes: TreeItem[],
+  maxDepth = MAX_DEPTH,
+  maxTitleLength = MAX_TITLE_LENGTH
+): { items: TreeItem[]; truncated: number; flattened: number } => {
+  let truncated = 0;
+  let flattened = 0;
+  const fitTitle = (title: string): string => {
+    const trimmed = title.trim();
+    if (trimmed.length <= maxTitleLength) return trimmed;
+    truncated++;
+    return trimmed.slice(0, maxTitleLength);
+  };
+  const walk = (list: TreeItem[], depth: number): TreeItem[] =>
+    list.flatMap(node => {
+      const title = fitTitle(node.title);
+      if (depth < maxDepth - 1) return [{ ...node, title, children: walk(node.children, depth + 1) }];
+      flattened += node.children.length;
+      return [{ ...node, title, children: [] }, ...walk(node.children, depth)];
+    });
+  return { items: walk(nodes, 0), truncated, flattened };
+};
+
+export const importTree = (text: string, fileName?: string, limits: TreeLimits = DEFAULT_TREE_LIMITS): ImportResult => {
+  const format = detectFormat(text, fileName);
+  let items: TreeItem[];
+  let skipped = 0;
+  if (format === 'json') items = parseJson(text);
+  else if (format === 'opml') items = parseOpml(text);
+  else ({ items, skipped } = parseOutline(text));
+  if (!items.length) throw new ImportError('没有找到可以导入的任务');
+  const fitted = fitTreeToLimits(items, limits.maxDepth, limits.maxTitleLength);
+  return {
+    items: fitted.items,
+    report: {
+      format,
+      count: countNodes(fitted.items),
+      truncated: fitted.truncated,
+      flattened: fitted.flattened,
+      skipped
+    }
+  };
+};
+
+/** 导入内容与现有树合并，现有节点保留 id，冲突的导入节点换新 id。 */
+export const mergeImported = (tree: TreeItem[], items: TreeItem[], mode: 'append' | 'replace'): TreeItem[] =>
+  normalizeTreeIds(mode === 'replace' ? items : [...tree, ...items]).tree;
+
+export const downloadTextFile = (fileName: string, content: string, mime = 'text/plain') => {
+  const blob = new Blob([content], { type: `${mime};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadTree = (tree: TreeItem[], format: TransferFormat) => {
+  const date = new Date().toISOString().slice(0, 10);
+  downloadTextFile(`plan-p-${date}.${TRANSFER_FILE_EXTENSIONS[format]}`, exportTree(tree, format), TRANSFER_MIME_TYPES[format]);
+};
@@ -0,0 +1,516 @@
+/**
+ * tree.ts
+ * ---------------------------------------------------------------------------
+ * 任务树的数据结构与纯函数工具，不依赖界面，供组件与持久化层共用。
+ * 这里的函数都不修改入参，需要变更时返回新的树。
+ */
+
+import type { RepeatRule } from './recurrence';
+
+export type InsertPosition = 'before' | 'after' | 'inside';
+export type TreeOpenState = 'all-open' | 'all-closed' | 'mixed';
+
+// 层级与标题字数的默认上限，用户可在设置里调整（见 TreeLimits）
+export const MAX_TITLE_LENGTH = 36;
+export const PLACEHOLDER_TITLE = '新项目';
+export const MAX_DEPTH = 5;
+export const MAX_NOTE_LENGTH = 2000;
+
+export interface TreeLimits {
+  maxDepth: number;
+  maxTitleLength: number;
+}
+
+export const DEFAULT_TREE_LIMITS: TreeLimits = { maxDepth: MAX_DEPTH, maxTitleLength: MAX_TITLE_LENGTH };
+// 层级太浅失去树的意义，太深在 350px 宽的弹窗里放不下；字数同理
+export const DEPTH_LIMIT_RANGE = { min: 2, max: 8 } as const;
+export const TITLE_LENGTH_RANGE = { min: 12, max: 80 } as const;
+
+const clampInt = (value: number, range: { min: number; max: number }): number =>
+  Math.max(range.min, Math.min(range.max, Math.round(value)));
+
+export const clampTreeLimits = (limits: TreeLimits): TreeLimits => ({
+  maxDepth: clampInt(limits.maxDepth, DEPTH_LIMIT_RANGE),
+  maxTitleLength: clampInt(limits.maxTitleLength, TITLE_LENGTH_RANGE)
+});
+
+export interface TreeItem {
+  id: string;
+  title: string;
+  isOpen?: boolean;
+  completedAt?: number;
+  /** 截止日期，当天 0 点的时间戳 */
+  dueAt?: number;
+  /** 推迟到这一天（0 点）之前都沉在同级末尾 */
+  snoozeUntil?: number;
+  /** 不含 #，见 tags.ts */
+  tags?: string[];
+  /** Markdown 备注，见 markdown.tsx */
+  note?: string;
+  /** 从网页收进来的任务记下原网址，见 capture.ts */
+  url?: string;
+  /** 例行任务，完成或删除后按规则再出现，见 recurrence.ts */
+  repeat?: RepeatRule;
+  children: TreeItem[];
+}
+
+// 已完成的子树连同原位置一起归档，恢复时尽量放回原处
+export interface CompletedEntry {
+  item: TreeItem;
+  completedAt: number;
+  parentId: string | null;
+  index: number;
+  path: string[];
+  /** 所属清单，归档在各清单之间共用一份 */
+  listId: string;
+}
+
+export interface TreeContext {
+  list: TreeItem[];
+  index: number;
+  node: TreeItem;
+  parent: TreeItem | null;
+}
+
+// --- ID 工具集 ---
+export const generateId = (): string => Math.random().toString(36).slice(2, 11);
+export const generateUniqueId = (used: Set<string>): string => {
+  let next = generateId();
+  while (used.has(next)) next = generateId();
+  used.add(next);
+  return next;
+};
+export const collectIds = (nodes: TreeItem[], used = new Set<string>()): Set<string> => {
+  for (const node of nodes) {
+    if (node.id) used.add(node.id);
+    if (node.children) collectIds(node.children, used);
+  }
+  return used;
+};
+export const normalizeTreeIds = (nodes: TreeItem[]): { tree: TreeItem[]; usedIds: Set<string>; changed: boolean } => {
+  const usedIds = new Set<string>();
+  let changed = false;
+  const walk = (list: TreeItem[]): TreeItem[] =>
+    list.map(node => {
+      let nextId = node.id;
+      if (!nextId || usedIds.has(nextId)) {
+        nextId = generateUniqueId(usedIds);
+        changed = true;
+      } else {
+        usedIds.add(nextId);
+      }
+      return { ...node, id: nextId, children: node.children ? walk(node.children) : [] };
+    });
+  return { tree: walk(nodes), usedIds, changed };
+};
+
+export const getNodeMaxDepth = (node: TreeItem): number =>
+  1 + (node.children.length ? Math.max(...node.children.map(getNodeMaxDepth)) : 0);
+
+export interface TreeContextWithDepth extends TreeContext {
+  depth: number;
+}
+
+export const findContextByIdWithDepth = (
+  nodes: TreeItem[],
+  targetId: string,
+  depth = 0,
+  parent: TreeItem | null = null
+): TreeContextWithDepth | null => {
+  for (let i = 0; i < nodes.length; i++) {
+    if (nodes[i].id === targetId) return { list: nodes, index: i, node: nodes[i], parent, depth };
+    if (nodes[i].children) {
+      const res = findContextByIdWithDepth(nodes[i].children, targetId, depth + 1, nodes[i]);
+      if (res) return res;
+    }
+  }
+  return null;
+};
+
+export const findContextById = (nodes: TreeItem[], targetId: string, parent: TreeItem | null = null): TreeContext | null => {
+  for (let i = 0; i < nodes.length; i++) {
+    if (nodes[i].id === targetId) return { list: nodes, index: i, node: nodes[i], parent };
+    if (nodes[i].children) {
+      const res = findContextById(nodes[i].children, targetId, nodes[i]);
+      if (res) return res;
+    }
+  }
+  return null;
+};
+export const containsId = (node: TreeItem, targetId: string): boolean => {
+  if (node.id === targetId) return true;
+  return node.children?.some(child => containsId(child, targetId)) ?? false;
+};
+
+export const ensureNodeOpenById = (nodes: TreeItem[], targetId: string): { tree: TreeItem[]; changed: boolean } => {
+  let changed = false;
+  const walk = (list: TreeItem[]): TreeItem[] =>
+    list.map(node => {
+      if (node.id === targetId) {
+        if (node.isOpen) return node;
+        changed = true;
+        return { ...node, isOpen: true };
+      }
+      if (!node.children?.length) return node;
+      const nextChildren = walk(node.children);
+      if (nextChildren !== node.children) {
+        changed = true;
+        return { ...node, children: nextChildren };
+      }
+      return node;
+    });
+  const tree = walk(nodes);
+  return { tree, changed };
+};
+export const setAllNodesOpen = (nodes: TreeItem[], open: boolean): TreeItem[] =>
+  nodes.map(node => ({
+    ...node,
+    isOpen: open,
+    children: node.children ? setAllNodesOpen(node.children, open) : []
+  }));
+
+// 忽略 isOpen 的结构比较，展开/收起不写入撤销历史
+export const isSameTreeIgnoringOpen = (a: TreeItem[], b: TreeItem[]): boolean => {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+  return a.every((node, i) => {
+    const other = b[i];
+    if (node === other) return true;
+    const { isOpen: _openA, children: childrenA, ...restA } = node;
+    const { isOpen: _openB, children: childrenB, ...restB } = other;
+    return JSON.stringify(restA) === JSON.stringify(restB) && isSameTreeIgnoringOpen(childrenA, childrenB);
+  });
+};
+
+export const findNodeById = (nodes: TreeItem[], targetId: string): TreeItem | null => {
+  const ctx = findContextById(nodes, targetId);
+  return ctx?.node ?? null;
+};
+
+export const collectSubtreeIds = (node: TreeItem): string[] => {
+  const ids: string[] = [node.id];
+  node.children?.forEach(child => ids.push(...collectSubtreeIds(child)));
+  return ids;
+};
+
+export const updateNodeById = (nodes: TreeItem[], targetId: string, update: (node: TreeItem) => TreeItem): TreeItem[] =>
+  nodes.map(node => {
+    if (node.id === targetId) return update(node);
+    if (!node.children.length) return node;
+    return { ...node, children: updateNodeById(node.children, targetId, update) };
+  });
+
+export const removeNodesByIds = (nodes: TreeItem[], ids: Set<string>): TreeItem[] =>
+  nodes
+    .filter(n => !ids.has(n.id))
+    .map(n => ({ ...n, children: removeNodesByIds(n.children, ids) }));
+
+export const findAncestorsById = (nodes: TreeItem[], targetId: string, trail: TreeItem[] = []): TreeItem[] | null => {
+  for (const node of nodes) {
+    if (node.id === targetId) return trail;
+    const res = findAncestorsById(node.children, targetId, [...trail, node]);
+    if (res) return res;
+  }
+  return null;
+};
+
+// parentId 为 null 时插入顶层；找不到父节点时原样返回
+export const insertNodeAt = (nodes: TreeItem[], parentId: string | null, index: number, node: TreeItem): TreeItem[] =>
+  insertNodesAt(nodes, parentId, index, [node]);
+
+/** 一次插入几个相邻的节点，规则同 insertNodeAt。 */
+export const insertNodesAt = (nodes: TreeItem[], parentId: string | null, index: number, items: TreeItem[]): TreeItem[] => {
+  if (!parentId) {
+    const next = [...nodes];
+    next.splice(Math.max(0, Math.min(index, next.length)), 0, ...items);
+    return next;
+  }
+  return nodes.map(n => {
+    if (n.id === parentId) return { ...n, isOpen: true, children: insertNodesAt(n.children, null, index, items) };
+    if (!n.children.length) return n;
+    return { ...n, children: insertNodesAt(n.children, parentId, index, items) };
+  });
+};
+
+/** 整棵子树换上新 id（避开 used 里已有的），其余字段原样保留。 */
+export const cloneWithFreshIds = (nodes: TreeItem[], used: Set<string>): TreeItem[] =>
+  nodes.map(node => ({ ...node, id: generateUniqueId(used), children: cloneWithFreshIds(node.children, used) }));
+
+// --- 完成与归档 ---
+export const markSubtreeCompleted = (node: TreeItem, completedAt: number): TreeItem => ({
+  ...node,
+  completedAt: node.completedAt ?? completedAt,
+  children: node.children.map(child => markSubtreeCompleted(child, completedAt))
+});
+export const clearSubtreeCompleted = (node: TreeItem): TreeItem => {
+  const { completedAt: _completedAt, ...rest } = node;
+  return { ...rest, children: node.children.map(clearSubtreeCompleted) };
+};
+
+/**
+ * 完成一个节点：整棵子树一起完成；若父节点因此没有剩余子任务，则向上级联。
+ * 级联到祖先时，之前单独归档的兄弟节点会被收回到祖先的子树里，合并成一条记录。
+ */
+export const completeNodeInTree = (
+  tree: TreeItem[],
+  archive: CompletedEntry[],
+  targetId: string,
+  completedAt: number,
+  listId: string
+): { tree: TreeItem[]; archive: CompletedEntry[] } | null => {
+  const ancestors = findAncestorsById(tree, targetId);
+  const node = findNodeById(tree, targetId);
+  if (!ancestors || !node) return null;
+  const chain = [...ancestors, node];
+  let k = chain.length - 1;
+  while (k > 0 && chain[k - 1].children.length === 1) k--;
+  const root = chain[k];
+  const rootCtx = findContextById(tree, root.id);
+  if (!rootCtx) return null;
+
+  const subtreeIds = new Set(collectSubtreeIds(root));
+  const folded = archive
+    .filter(entry => entry.listId === listId && entry.parentId && subtreeIds.has(entry.parentId))
+    .sort((a, b) => b.completedAt - a.completedAt);
+  let merged = root;
+  folded.forEach(entry => {
+    merged = insertNodeAt([merged], entry.parentId, entry.index, entry.item)[0];
+  });
+
+  const entry: CompletedEntry = {
+    item: markSubtreeCompleted(merged, completedAt),
+    completedAt,
+    parentId: rootCtx.parent?.id ?? null,
+    index: rootCtx.index,
+    path: chain.slice(0, k).map(ancestor => ancestor.title.trim() || PLACEHOLDER_TITLE),
+    listId
+  };
+  const foldedSet = new Set(folded);
+  return {
+    tree: removeNodesByIds(tree, new Set([root.id])),
+    archive: [entry, ...archive.filter(e => !foldedSet.has(e))]
+  };
+};
+
+// 放回原父节点；父节点已不存在或放回会超出层级时退回顶层
+export const restoreCompletedEntry = (
+  tree: TreeItem[],
+  archive: CompletedEntry[],
+  entryId: string,
+  maxDepth = MAX_DEPTH
+): { tree: TreeItem[]; archive: CompletedEntry[] } | null => {
+  const entry = archive.find(e => e.item.id === entryId);
+  if (!entry) return null;
+  const item = clearSubtreeCompleted(entry.item);
+  const parentCtx = entry.parentId ? findContextByIdWithDepth(tree, entry.parentId) : null;
+  const fitsParent = !!parentCtx && parentCtx.depth + getNodeMaxDepth(item) < maxDepth;
+  const nextTree = fitsParent
+    ? insertNodeAt(tree, entry.parentId, entry.index, item)
+    : insertNodeAt(tree, null, entry.parentId ? tree.length : entry.index, item);
+  return {
+    tree: normalizeTreeIds(nextTree).tree,
+    archive: archive.filter(e => e !== entry)
+  };
+};
+
+export const getTreeOpenState = (nodes: TreeItem[]): TreeOpenState => {
+  if (!nodes.length) return 'all-closed';
+  let hasOpen = false;
+  let hasClosed = false;
+  const walk = (list: TreeItem[], ancestorClosed: boolean) => {
+    for (const node of list) {
+      const isBranchOpen = !ancestorClosed && !!node.isOpen;
+      if (isBranchOpen) hasOpen = true;
+      else hasClosed = true;
+      if (node.children?.length) walk(node.children, ancestorClosed || !node.isOpen);
+      if (hasOpen && hasClosed) return;
+    }
+  };
+  walk(nodes, false);
+  if (hasOpen && hasClosed) return 'mixed';
+  if (hasOpen) return 'all-open';
+  return 'all-closed';
+};
+
+export const canPlaceNode = (
+  tree: TreeItem[],
+  dragId: string,
+  targetId: string,
+  position: InsertPosition,
+  maxDepth = MAX_DEPTH
+): boolean => {
+  const dragCtx = findContextByIdWithDepth(tree, dragId);
+  const targetCtx = findContextByIdWithDepth(tree, targetId);
+  if (!dragCtx || !targetCtx) return false;
+  const dragHeight = getNodeMaxDepth(dragCtx.node);
+  let baseDepth = targetCtx.depth;
+  if (position === 'inside') baseDepth = targetCtx.depth + 1;
+  return baseDepth + dragHeight - 1 < maxDepth;
+};
+
+/** 只重建 parentPath（从顶层到目标父节点的 id）上的节点，其余分支与原树共享。 */
+const updateListAtPath = (nodes: TreeItem[], parentPath: string[], update: (list: TreeItem[]) => TreeItem[]): TreeItem[] => {
+  if (!parentPath.length) return update(nodes);
+  const [head, ...rest] = parentPath;
+  return nodes.map(node => (node.id === head ? { ...node, children: updateListAtPath(node.children, rest, update) } : node));
+};
+
+const getParentPath = (tree: TreeItem[], id: string): string[] | null =>
+  findAncestorsById(tree, id)?.map(node => node.id) ?? null;
+
+/** 摘掉 ids 对应的子树；不含这些节点的分支沿用原对象。 */
+const detachNodes = (nodes: TreeItem[], ids: Set<string>): TreeItem[] => {
+  let changed = false;
+  const next = nodes.flatMap(node => {
+    if (ids.has(node.id)) {
+      changed = true;
+      return [];
+    }
+    const children = detachNodes(node.children, ids);
+    if (children === node.children) return [node];
+    changed = true;
+    return [{ ...node, children }];
+  });
+  return changed ? next : nodes;
+};
+
+/** 拖拽落点的一次性提交；未改动的分支沿用原对象，几百个节点的树也不必整棵复制。 */
+export const moveNodeInTree = (data: TreeItem[], dragId: string, targetId: string, position: InsertPosition): TreeItem[] | null =>
+  dragId ? moveNodesInTree(data, new Set([dragId]), targetId, position) : null;
+
+// --- 多选 ---
+/** 选中节点里祖先没被选中的那些，按屏幕顺序；整组操作只处理这些子树的根。 */
+export const getSelectionRoots = (nodes: TreeItem[], ids: Set<string>): TreeItem[] =>
+  nodes.flatMap(node => (ids.has(node.id) ? [node] : getSelectionRoots(node.children, ids)));
+
+/** 整组放到同一落点：每棵子树都不超层级，且落点不在任何一棵子树里。 */
+export const canPlaceNodes = (
+  tree: TreeItem[],
+  ids: Set<string>,
+  targetId: string,
+  position: InsertPosition,
+  maxDepth = MAX_DEPTH
+): boolean => {
+  const roots = getSelectionRoots(tree, ids);
+  return roots.length > 0 && roots.every(root => !containsId(root, targetId) && canPlaceNode(tree, root.id, targetId, position, maxDepth));
+};
+
+/** 整组移动后按原先的屏幕顺序紧挨着排在落点处；落点在某棵子树里时返回 null。 */
+export const moveNodesInTree = (data: TreeItem[], ids: Set<string>, targetId: string, position: InsertPosition): TreeItem[] | null => {
+  const roots = getSelectionRoots(data, ids);
+  if (!roots.length || roots.some(root => containsId(root, targetId))) return null;
+
+  const removed = detachNodes(data, new Set(roots.map(root => root.id)));
+  const targetPath = getParentPath(removed, targetId);
+  if (!targetPath) return null;
+  return updateListAtPath(removed, targetPath, list => {
+    // 先移除再定位，同一列表内向后拖时不用再修正下标
+    const index = list.findIndex(node => node.id === targetId);
+    if (position === 'inside') {
+      return list.map((node, i) => (i === index ? { ...node, isOpen: true, children: [...node.children, ...roots] } : node));
+    }
+    const next = [...list];
+    next.splice(position === 'before' ? index : index + 1, 0, ...roots);
+    return next;
+  });
+};
+
+/** 整组移到顶层：at 为 'start' 时排在最前面，否则接在末尾。 */
+export const moveNodesToRoot = (data: TreeItem[], ids: Set<string>, at: 'start' | 'end'): TreeItem[] => {
+  const roots = getSelectionRoots(data, ids);
+  if (!roots.length) return data;
+  const rest = detachNodes(data, new Set(roots.map(root => root.id)));
+  return at === 'start' ? [...roots, ...rest] : [...rest, ...roots];
+};
+
+/** 收起选中的节点；只是展开状态变化，其余分支沿用原对象。 */
+export const collapseNodesInTree = (nodes: TreeItem[], ids: Set<string>): TreeItem[] => {
+  let changed = false;
+  const next = nodes.map(node => {
+    const children = collapseNodesInTree(node.children, ids);
+    const close = ids.has(node.id) && node.isOpen && node.children.length > 0;
+    if (!close && children === node.children) return node;
+    changed = true;
+    return { ...node, children, ...(close ? { isOpen: false } : {}) };
+  });
+  return changed ? next : nodes;
+};
+
+// --- 键盘编辑 ---
+/** 按屏幕顺序列出当前可见（所有祖先都展开）的节点 id。 */
+export const getVisibleIds = (nodes: TreeItem[], out: string[] = []): string[] => {
+  nodes.forEach(node => {
+    out.push(node.id);
+    if (node.isOpen && node.children.length) getVisibleIds(node.children, out);
+  });
+  return out;
+};
+
+/** 缩进：成为上一个兄弟的最后一个子节点；没有上一个兄弟或超出层级限制时返回 null。 */
+export const indentNodeInTree = (tree: TreeItem[], id: string, maxDepth = MAX_DEPTH): TreeItem[] | null => {
+  const ctx = findContextByIdWithDepth(tree, id);
+  if (!ctx || ctx.index === 0) return null;
+  if (ctx.depth + getNodeMaxDepth(ctx.node) >= maxDepth) return null;
+  const previous = ctx.list[ctx.index - 1];
+  return insertNodeAt(removeNodesByIds(tree, new Set([id])), previous.id, previous.children.length, ctx.node);
+};
+
+/** 反缩进：成为父节点之后的兄弟；已在顶层时返回 null。 */
+export const outdentNodeInTree = (tree: TreeItem[], id: string): TreeItem[] | null => {
+  const ctx = findContextById(tree, id);
+  if (!ctx?.parent) return null;
+  const parentCtx = findContextById(tree, ctx.parent.id);
+  if (!parentCtx) return null;
+  return insertNodeAt(removeNodesByIds(tree, new Set([id])), parentCtx.parent?.id ?? null, parentCtx.index + 1, ctx.node);
+};
+
+// --- 下一步视图 ---
+export interface LeafPath {
+  node: TreeItem;
+  /** 从顶层到直接父节点 */
+  ancestors: TreeItem[];
+}
+
+/**
+ * 与 TreeNode 的渲染顺序一致，深度优先列出所有叶子及其祖先链。
+ * 被 skip 排除的节点连同子树一起跳过；子节点全部被排除的父节点视为叶子。
+ */
+export const getLeafPaths = (
+  nodes: TreeItem[],
+  skip: (node: TreeItem) => boolean = () => false,
+  ancestors: TreeItem[] = []
+): LeafPath[] =>
+  nodes.flatMap(node => {
+    if (skip(node)) return [];
+    const below = getLeafPaths(node.children, skip, [...ancestors, node]);
+    return below.length ? below : [{ node, ancestors }];
+  });
+
+/** 移到同级末尾，其余结构不变；找不到时原样返回。 */
+export const moveNodeToSiblingEnd = (tree: TreeItem[], id: string): TreeItem[] => {
+  const walk = (list: TreeItem[]): TreeItem[] => {
+    const index = list.findIndex(node => node.id === id);
+    if (index !== -1) return [...list.slice(0, index), ...list.slice(index + 1), list[index]];
+    return list.map(node => (node.children.length ? { ...node, children: walk(node.children) } : node));
+  };
+  return walk(tree);
+};
+
+// --- 过滤视图 ---
+/**
+ * 只保留命中节点及其祖先，返回展示用的副本，原树不变。
+ * 有命中子孙的节点只留命中的分支并强制展开；没有命中子孙的命中节点连同子树原样保留。
+ * order 为命中节点的深度优先顺序。
+ */
+export const filterTree = (tree: TreeItem[], isMatch: (node: TreeItem) => boolean): { tree: TreeItem[]; order: string[] } => {
+  const order: string[] = [];
+  const walk = (nodes: TreeItem[]): TreeItem[] =>
+    nodes.flatMap(node => {
+      const matched = isMatch(node);
+      if (matched) order.push(node.id);
+      const children = walk(node.children);
+      if (children.length) return [{ ...node, isOpen: true, children }];
+      return matched ? [node] : [];
+    });
+  return { tree: walk(tree), order };
+};
@@ -2,13 +2,20 @@ import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
 // Vite config tailored for a Chrome extension popup page.
+// The background service worker is a second entry; manifest.json expects it at a fixed path.
 export default defineConfig({
   plugins: [react()],
   base: './',
   build: {
     outDir: 'dist',
     rollupOptions: {
-      input: 'index.html'
+      input: {
+        popup: 'index.html',
+        background: 'src/background.ts'
+      },
+      output: {
+        entryFileNames: chunk => (chunk.name === 'background' ? 'background.js' : 'assets/[name]-[hash].js')
+      }
     }
   }
 });